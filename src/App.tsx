@@ -1,33 +1,126 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { ThreadSidebar } from './components/ThreadSidebar';
 import { ChatInterface } from './components/ChatInterface';
 import { ErrorNotification } from './components/ErrorNotification';
-import { api, ApiError } from './services/api';
-import { storage } from './services/storage';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ThreadNotFound } from './components/ThreadNotFound';
+import { api, ApiError, isAbortError } from './services/api';
+import type { ThreadInfo } from './types/api';
+import { storage, isLocalThreadId } from './services/storage';
+import { outbox } from './services/outbox';
+import type { ThreadReconciledDetail } from './services/outbox';
+import { HEALTH_RETRY_INTERVAL_MS } from './config';
+import { useRoute, navigate, parseRoute } from './hooks/useRoute';
+import { useTheme } from './contexts/ThemeContext';
+import type { VoiceCommandDetail } from './utils/voiceCommands';
 import './App.css';
 
 function App() {
-  const [currentThreadId, setCurrentThreadId] = useState<string | null>(null);
+  // The URL is the source of truth for which thread is open
+  const route = useRoute();
+  const currentThreadId = route.name === 'thread' ? route.threadId : null;
+  const [missingThreadId, setMissingThreadId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [healthStatus, setHealthStatus] = useState<'checking' | 'healthy' | 'unhealthy'>('checking');
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  // Message to scroll to after opening a thread from a search result
+  const [focusTarget, setFocusTarget] = useState<{ threadId: string; messageKey: string } | null>(null);
+  const { setTheme } = useTheme();
 
-  useEffect(() => {
-    checkHealth();
-  }, []);
-
-  const checkHealth = async () => {
+  // silent: background re-checks don't raise an error notification
+  const checkHealth = useCallback(async (silent = false) => {
     try {
       await api.healthCheck();
       setHealthStatus('healthy');
     } catch (err) {
       setHealthStatus('unhealthy');
+      if (silent) return;
       if (err instanceof ApiError) {
-        showError(`Backend unavailable: ${err.detail}`);
+        setError(`Backend unavailable: ${err.detail}`);
       } else {
-        showError('Backend unavailable. Please ensure the API server is running.');
+        setError('Backend unavailable. Please ensure the API server is running.');
       }
     }
-  };
+  }, []);
+
+  useEffect(() => {
+    checkHealth();
+  }, [checkHealth]);
+
+  // Normalise unknown paths to the welcome view
+  useEffect(() => {
+    if (route.name === 'home' && window.location.pathname !== '/') {
+      navigate({ name: 'home' }, { replace: true });
+    }
+  }, [route]);
+
+  // Check that a deep-linked thread still exists
+  useEffect(() => {
+    if (!currentThreadId) return;
+    const controller = new AbortController();
+
+    const verifyThread = async () => {
+      // Offline threads only exist in the cache until the outbox syncs them
+      if (isLocalThreadId(currentThreadId)) {
+        if (!(await storage.getThread(currentThreadId)) && !controller.signal.aborted) {
+          setMissingThreadId(currentThreadId);
+        }
+        return;
+      }
+      try {
+        await api.getThread(currentThreadId, { signal: controller.signal });
+      } catch (err) {
+        if (isAbortError(err)) return;
+        // Other failures (e.g. backend down) fall back to the cached conversation
+        if (err instanceof ApiError && err.status === 404) {
+          setMissingThreadId(currentThreadId);
+          // Drop a deleted thread from the cache and sidebar
+          await storage.removeThread(currentThreadId);
+          window.dispatchEvent(new Event('threadUpdated'));
+        }
+      }
+    };
+
+    verifyThread();
+    return () => controller.abort();
+  }, [currentThreadId]);
+
+  // Queued messages are only sent while the backend is reachable
+  useEffect(() => {
+    outbox.setOnline(healthStatus === 'healthy');
+  }, [healthStatus]);
+
+  // While unhealthy, keep probing so the outbox drains as soon as we reconnect
+  useEffect(() => {
+    if (healthStatus !== 'unhealthy') return;
+    const interval = setInterval(() => checkHealth(true), HEALTH_RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [healthStatus, checkHealth]);
+
+  useEffect(() => {
+    const handleReconnectHint = () => checkHealth(true);
+    const handleThreadReconciled = (e: Event) => {
+      const { localId, serverId } = (e as CustomEvent<ThreadReconciledDetail>).detail;
+      // Keep the address pointing at the same conversation under its new id
+      const active = parseRoute(window.location.pathname);
+      if (active.name === 'thread' && active.threadId === localId) {
+        navigate({ name: 'thread', threadId: serverId }, { replace: true });
+      }
+      window.dispatchEvent(new Event('threadUpdated'));
+    };
+
+    window.addEventListener('online', handleReconnectHint);
+    window.addEventListener('backendUnreachable', handleReconnectHint);
+    window.addEventListener('threadReconciled', handleThreadReconciled);
+    return () => {
+      window.removeEventListener('online', handleReconnectHint);
+      window.removeEventListener('backendUnreachable', handleReconnectHint);
+      window.removeEventListener('threadReconciled', handleThreadReconciled);
+    };
+  }, [checkHealth]);
+
+  const closeSettings = useCallback(() => setSettingsOpen(false), []);
+  const clearFocusTarget = useCallback(() => setFocusTarget(null), []);
 
   const showError = (message: string) => {
     setError(message);
@@ -36,9 +129,9 @@ function App() {
   const handleCreateThread = async () => {
     try {
       const thread = await api.createThread();
-      setCurrentThreadId(thread.thread_id);
+      navigate({ name: 'thread', threadId: thread.thread_id });
       // Save to localStorage
-      storage.addOrUpdateThread(thread);
+      await storage.addOrUpdateThread(thread);
     } catch (err) {
       if (err instanceof ApiError) {
         showError(`Failed to create thread: ${err.detail}`);
@@ -49,15 +142,20 @@ function App() {
   };
 
   const handleThreadSelect = (threadId: string) => {
-    setCurrentThreadId(threadId);
+    navigate({ name: 'thread', threadId });
+  };
+
+  const handleSearchResultSelect = (threadId: string, messageKey: string | null) => {
+    setFocusTarget(messageKey ? { threadId, messageKey } : null);
+    navigate({ name: 'thread', threadId });
   };
 
   const handleNavigateToHome = () => {
-    setCurrentThreadId(null);
+    navigate({ name: 'home' });
   };
 
   const handleThreadCreated = (threadId: string) => {
-    setCurrentThreadId(threadId);
+    navigate({ name: 'thread', threadId });
     // Trigger a refresh of the thread list by reloading the sidebar
     // This is handled by the ThreadSidebar component's useEffect
     window.dispatchEvent(new Event('threadCreated'));
@@ -65,10 +163,43 @@ function App() {
 
   const handleThreadDeleted = (threadId: string) => {
     if (currentThreadId === threadId) {
-      setCurrentThreadId(null);
+      navigate({ name: 'home' }, { replace: true });
     }
   };
 
+  // The conversation with the most recent activity, other than the open one
+  const handleOpenLastThread = async () => {
+    const activity = (thread: ThreadInfo) => new Date(thread.last_activity ?? thread.created_at ?? 0).getTime();
+    const [latest] = (await storage.getThreads())
+      .filter(thread => !thread.archived && thread.thread_id !== currentThreadId)
+      .sort((a, b) => activity(b) - activity(a));
+    if (latest) {
+      handleThreadSelect(latest.thread_id);
+    } else {
+      showError('There is no other conversation to open.');
+    }
+  };
+
+  // Spoken navigation and theme commands, recognised by ChatInterface
+  useEffect(() => {
+    const handleVoiceCommand = (e: Event) => {
+      const { command } = (e as CustomEvent<VoiceCommandDetail>).detail;
+      switch (command.type) {
+        case 'newConversation':
+          handleNavigateToHome();
+          break;
+        case 'openLastThread':
+          handleOpenLastThread();
+          break;
+        case 'setTheme':
+          setTheme(command.theme);
+          break;
+      }
+    };
+    window.addEventListener('voiceCommand', handleVoiceCommand);
+    return () => window.removeEventListener('voiceCommand', handleVoiceCommand);
+  });
+
   return (
     <div className="app">
       {error && (
@@ -80,8 +211,8 @@ function App() {
       
       {healthStatus === 'unhealthy' && (
         <div className="health-warning">
-          <span>⚠️ Backend API is unavailable</span>
-          <button onClick={checkHealth}>Retry</button>
+          <span>⚠️ Backend API is unavailable. New messages will be sent when it reconnects.</span>
+          <button onClick={() => checkHealth()}>Retry</button>
         </div>
       )}
 
@@ -91,13 +222,28 @@ function App() {
           onThreadSelect={handleThreadSelect}
           onThreadDeleted={handleThreadDeleted}
           onNavigateToHome={handleNavigateToHome}
+          onOpenSettings={() => setSettingsOpen(true)}
+          onSearchResultSelect={handleSearchResultSelect}
         />
-        <ChatInterface
-          threadId={currentThreadId}
-          onThreadCreated={handleThreadCreated}
-          onError={showError}
-        />
+        {currentThreadId && missingThreadId === currentThreadId ? (
+          <ThreadNotFound
+            threadId={currentThreadId}
+            onNavigateToHome={handleNavigateToHome}
+          />
+        ) : (
+          <ChatInterface
+            threadId={currentThreadId}
+            onThreadCreated={handleThreadCreated}
+            onThreadSelect={handleThreadSelect}
+            onError={showError}
+            isOnline={healthStatus !== 'unhealthy'}
+            focusMessageKey={focusTarget?.threadId === currentThreadId ? focusTarget.messageKey : null}
+            onFocusHandled={clearFocusTarget}
+          />
+        )}
       </div>
+
+      {settingsOpen && <SettingsPanel onClose={closeSettings} />}
     </div>
   );
 }
@@ -0,0 +1,211 @@
+import type { Ref } from 'react';
+import type { ChartType, ChartPoint } from '../utils/charts';
+import { niceTicks, formatTick, pieSlices } from '../utils/charts';
+
+interface ChartProps {
+  type: ChartType;
+  points: ChartPoint[];
+  xLabel: string;
+  yLabel: string;
+  ref?: Ref<SVGSVGElement>;
+}
+
+export const CHART_WIDTH = 640;
+export const CHART_HEIGHT = 320;
+const MARGIN = { top: 16, right: 16, bottom: 64, left: 64 };
+const PLOT_WIDTH = CHART_WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = CHART_HEIGHT - MARGIN.top - MARGIN.bottom;
+// Leave room for rotated axis labels
+const MAX_X_LABELS = 16;
+const LABEL_MAX_CHARS = 14;
+
+const CHART_COLORS = ['#9c27b0', '#e91e63', '#3f51b5', '#009688', '#ff9800', '#795548', '#607d8b'];
+
+function truncate(label: string): string {
+  return label.length > LABEL_MAX_CHARS ? `${label.slice(0, LABEL_MAX_CHARS - 1)}…` : label;
+}
+
+// Shared y axis and gridlines for bar and line charts
+function ValueAxis({ ticks, scale }: { ticks: number[]; scale: (value: number) => number }) {
+  return (
+    <g className="chart-axis">
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line
+            x1={MARGIN.left}
+            x2={MARGIN.left + PLOT_WIDTH}
+            y1={scale(tick)}
+            y2={scale(tick)}
+            stroke="currentColor"
+            strokeOpacity={tick === 0 ? 0.5 : 0.15}
+          />
+          <text x={MARGIN.left - 8} y={scale(tick)} textAnchor="end" dominantBaseline="middle" fill="currentColor" fontSize={11}>
+            {formatTick(tick)}
+          </text>
+        </g>
+      ))}
+    </g>
+  );
+}
+
+function CategoryLabels({ points, position }: { points: ChartPoint[]; position: (index: number) => number }) {
+  const every = Math.ceil(points.length / MAX_X_LABELS);
+  return (
+    <g className="chart-axis">
+      {points.map((point, index) =>
+        index % every === 0 ? (
+          <text
+            key={index}
+            transform={`translate(${position(index)}, ${MARGIN.top + PLOT_HEIGHT + 12}) rotate(-35)`}
+            textAnchor="end"
+            fill="currentColor"
+            fontSize={11}
+          >
+            {truncate(point.label)}
+          </text>
+        ) : null
+      )}
+    </g>
+  );
+}
+
+function valueScale(points: ChartPoint[]) {
+  const values = points.map(point => point.value);
+  const ticks = niceTicks(Math.min(0, ...values), Math.max(0, ...values));
+  const min = ticks[0];
+  const max = ticks[ticks.length - 1];
+  const scale = (value: number) => MARGIN.top + PLOT_HEIGHT - ((value - min) / (max - min)) * PLOT_HEIGHT;
+  return { ticks, scale };
+}
+
+function BarChart({ points }: { points: ChartPoint[] }) {
+  const { ticks, scale } = valueScale(points);
+  const band = PLOT_WIDTH / points.length;
+  const barWidth = Math.max(1, band * 0.7);
+  const center = (index: number) => MARGIN.left + band * index + band / 2;
+  return (
+    <>
+      <ValueAxis ticks={ticks} scale={scale} />
+      {points.map((point, index) => {
+        const top = scale(Math.max(0, point.value));
+        const bottom = scale(Math.min(0, point.value));
+        return (
+          <rect
+            key={index}
+            x={center(index) - barWidth / 2}
+            y={top}
+            width={barWidth}
+            height={Math.max(1, bottom - top)}
+            fill={CHART_COLORS[0]}
+            rx={2}
+          >
+            <title>{`${point.label}: ${point.value.toLocaleString()}`}</title>
+          </rect>
+        );
+      })}
+      <CategoryLabels points={points} position={center} />
+    </>
+  );
+}
+
+function LineChart({ points }: { points: ChartPoint[] }) {
+  const { ticks, scale } = valueScale(points);
+  const step = points.length > 1 ? PLOT_WIDTH / (points.length - 1) : 0;
+  const xAt = (index: number) => MARGIN.left + (points.length > 1 ? step * index : PLOT_WIDTH / 2);
+  const path = points.map((point, index) => `${index === 0 ? 'M' : 'L'}${xAt(index)},${scale(point.value)}`).join(' ');
+  return (
+    <>
+      <ValueAxis ticks={ticks} scale={scale} />
+      <path d={path} fill="none" stroke={CHART_COLORS[0]} strokeWidth={2} strokeLinejoin="round" />
+      {points.length <= 60 && points.map((point, index) => (
+        <circle key={index} cx={xAt(index)} cy={scale(point.value)} r={3} fill={CHART_COLORS[1]}>
+          <title>{`${point.label}: ${point.value.toLocaleString()}`}</title>
+        </circle>
+      ))}
+      <CategoryLabels points={points} position={xAt} />
+    </>
+  );
+}
+
+function PieChart({ points }: { points: ChartPoint[] }) {
+  const slices = pieSlices(points);
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+  const radius = (CHART_HEIGHT - 40) / 2;
+  const cx = radius + 40;
+  const cy = CHART_HEIGHT / 2;
+  let angle = -Math.PI / 2;
+  const at = (a: number) => `${cx + radius * Math.cos(a)},${cy + radius * Math.sin(a)}`;
+
+  return (
+    <>
+      {slices.map((slice, index) => {
+        const sweep = (slice.value / total) * Math.PI * 2;
+        const start = angle;
+        angle += sweep;
+        const color = CHART_COLORS[index % CHART_COLORS.length];
+        const label = `${slice.label}: ${slice.value.toLocaleString()} (${((slice.value / total) * 100).toFixed(1)}%)`;
+        // A single full slice can't be drawn as an arc
+        return slices.length === 1 ? (
+          <circle key={index} cx={cx} cy={cy} r={radius} fill={color}>
+            <title>{label}</title>
+          </circle>
+        ) : (
+          <path
+            key={index}
+            d={`M${cx},${cy} L${at(start)} A${radius},${radius} 0 ${sweep > Math.PI ? 1 : 0} 1 ${at(angle)} Z`}
+            fill={color}
+            stroke="white"
+            strokeWidth={1}
+          >
+            <title>{label}</title>
+          </path>
+        );
+      })}
+      <g className="chart-legend">
+        {slices.map((slice, index) => (
+          <g key={index} transform={`translate(${cx + radius + 40}, ${cy - (slices.length * 22) / 2 + index * 22})`}>
+            <rect width={12} height={12} rx={2} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+            <text x={20} y={10} fill="currentColor" fontSize={12}>
+              {`${truncate(slice.label)} · ${((slice.value / total) * 100).toFixed(1)}%`}
+            </text>
+          </g>
+        ))}
+      </g>
+    </>
+  );
+}
+
+/**
+ * Hand-rolled SVG charts. Colors and fonts are set as attributes (text uses
+ * currentColor) so the exported SVG/PNG looks like the one on screen.
+ */
+export function Chart({ type, points, xLabel, yLabel, ref }: ChartProps) {
+  return (
+    <svg
+      ref={ref}
+      className="chart-svg"
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      width={CHART_WIDTH}
+      height={CHART_HEIGHT}
+      xmlns="http://www.w3.org/2000/svg"
+      fontFamily="-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif"
+      role="img"
+      aria-label={`${type} chart of ${yLabel} by ${xLabel}`}
+    >
+      {type === 'bar' && <BarChart points={points} />}
+      {type === 'line' && <LineChart points={points} />}
+      {type === 'pie' && <PieChart points={points} />}
+      {type !== 'pie' && (
+        <text
+          transform={`translate(14, ${MARGIN.top + PLOT_HEIGHT / 2}) rotate(-90)`}
+          textAnchor="middle"
+          fill="currentColor"
+          fontSize={12}
+          fontWeight={600}
+        >
+          {yLabel}
+        </text>
+      )}
+    </svg>
+  );
+}
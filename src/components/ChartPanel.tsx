@@ -0,0 +1,117 @@
+import { useState, useMemo, useRef } from 'react';
+import type { AgentDebugInfo } from '../types/api';
+import { extractSqlQueries, selectColumnNames } from '../utils/sql';
+import { parseToolOutput, withColumnNames } from '../utils/toolOutput';
+import type { TableData } from '../utils/toolOutput';
+import { inferChart, chartPoints, columnKind, CHART_TYPES } from '../utils/charts';
+import type { ChartSpec } from '../utils/charts';
+import { serializeSvg, svgToPng } from '../utils/chartExport';
+import { downloadFile, slugify } from '../utils/download';
+import { Chart, CHART_WIDTH, CHART_HEIGHT } from './Chart';
+import './ChartPanel.css';
+
+interface ChartPanelProps {
+  debugInfo: AgentDebugInfo;
+  // Shown to the user when an export fails
+  onError?: (error: string) => void;
+}
+
+// The last query result in the message that looks chartable
+function findChartData(debugInfo: AgentDebugInfo): { data: TableData; spec: ChartSpec } | null {
+  const queries = extractSqlQueries(debugInfo).reverse();
+  for (const query of queries) {
+    const parsed = parseToolOutput(query.output);
+    if (!parsed) continue;
+    const data = withColumnNames(parsed, selectColumnNames(query.sql));
+    const spec = inferChart(data);
+    if (spec) return { data, spec };
+  }
+  return null;
+}
+
+export function ChartPanel({ debugInfo, onError }: ChartPanelProps) {
+  const found = useMemo(() => findChartData(debugInfo), [debugInfo]);
+  if (!found) return null;
+  return <ChartView data={found.data} initialSpec={found.spec} onError={onError} />;
+}
+
+function ChartView({ data, initialSpec, onError }: {
+  data: TableData;
+  initialSpec: ChartSpec;
+} & Pick<ChartPanelProps, 'onError'>) {
+  const [spec, setSpec] = useState(initialSpec);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const points = useMemo(() => chartPoints(data, spec), [data, spec]);
+  const valueColumns = useMemo(
+    () => data.columns.map((_, i) => i).filter(i => columnKind(data, i) === 'number'),
+    [data]
+  );
+
+  const xLabel = data.columns[spec.x];
+  const yLabel = data.columns[spec.y];
+  const filename = `chart-${slugify(`${yLabel} by ${xLabel}`, 'data')}`;
+
+  const handleExportSvg = () => {
+    if (!svgRef.current) return;
+    downloadFile(serializeSvg(svgRef.current), `${filename}.svg`, 'image/svg+xml');
+  };
+
+  const handleExportPng = async () => {
+    if (!svgRef.current) return;
+    try {
+      const png = await svgToPng(serializeSvg(svgRef.current), CHART_WIDTH, CHART_HEIGHT);
+      downloadFile(png, `${filename}.png`, 'image/png');
+    } catch (err) {
+      console.error('Failed to export chart:', err);
+      onError?.('Failed to export the chart as PNG');
+    }
+  };
+
+  return (
+    <details className="chart-panel" open>
+      <summary>Chart</summary>
+      <div className="chart-controls">
+        <div className="chart-type-toggle" role="group" aria-label="Chart type">
+          {CHART_TYPES.map(({ type, label }) => (
+            <button
+              key={type}
+              type="button"
+              className={`chart-control-btn ${spec.type === type ? 'active' : ''}`}
+              aria-pressed={spec.type === type}
+              onClick={() => setSpec({ ...spec, type })}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <label className="chart-select">
+          X
+          <select value={spec.x} onChange={(e) => setSpec({ ...spec, x: Number(e.target.value) })}>
+            {data.columns.map((column, i) => (
+              <option key={i} value={i}>{column}</option>
+            ))}
+          </select>
+        </label>
+        <label className="chart-select">
+          Y
+          <select value={spec.y} onChange={(e) => setSpec({ ...spec, y: Number(e.target.value) })}>
+            {valueColumns.map(i => (
+              <option key={i} value={i}>{data.columns[i]}</option>
+            ))}
+          </select>
+        </label>
+        <div className="chart-export">
+          <button type="button" className="chart-control-btn" onClick={handleExportPng}>PNG</button>
+          <button type="button" className="chart-control-btn" onClick={handleExportSvg}>SVG</button>
+        </div>
+      </div>
+      {points.length > 0 ? (
+        <div className="chart-container">
+          <Chart ref={svgRef} type={spec.type} points={points} xLabel={xLabel} yLabel={yLabel} />
+        </div>
+      ) : (
+        <p className="chart-empty">No numeric values in {yLabel}</p>
+      )}
+    </details>
+  );
+}
@@ -1,26 +1,61 @@
-import { useState, useEffect, useRef } from 'react';
-import ReactMarkdown from 'react-markdown';
-import type { Message } from '../types/api';
-import { api } from '../services/api';
-import { storage } from '../services/storage';
+import { useState, useEffect, useLayoutEffect, useMemo, useRef, useCallback } from 'react';
+import type { Message, ChatStreamEvent } from '../types/api';
+import { api, isAbortError } from '../services/api';
+import { storage, isLocalThreadId } from '../services/storage';
+import type { ThreadBranch, AnswerVariants, MessageFeedback } from '../services/storage';
+import { forkThread } from '../services/threads';
+import type { BranchProgress } from '../services/threads';
+import { recordFeedback, removeFeedback } from '../services/feedback';
+import type { FeedbackInput } from '../services/feedback';
+import { outbox } from '../services/outbox';
+import { createSpeechToTextProvider } from '../services/speechToText';
+import type { SpeechToTextProvider } from '../services/speechToText';
+import { speechPlayer } from '../services/textToSpeech';
+import type { SpeechItem } from '../services/textToSpeech';
+import type { OutboxUpdatedDetail } from '../services/outbox';
 import { generateThreadTitle } from '../utils/threadTitle';
+import { getMessageKey } from '../utils/messageKey';
+import { handsFreePhase, isHandsFreeExit } from '../utils/handsFree';
+import type { HandsFreeMode } from '../utils/handsFree';
+import { parseConfirmation, parseVoiceCommand } from '../utils/voiceCommands';
+import type { VoiceCommand, VoiceCommandDetail } from '../utils/voiceCommands';
+import { extractSqlQueries, sqlFollowUpPrompt, toolCallSql } from '../utils/sql';
+import { SqlPanel } from './SqlPanel';
+import { ToolOutput } from './ToolOutput';
+import { ChartPanel } from './ChartPanel';
+import { MarkdownMessage } from './MarkdownMessage';
+import { VariantCompare } from './VariantCompare';
+import { FeedbackControls } from './FeedbackControls';
+import { StarterQuestions } from './StarterQuestions';
+import { SpeechMiniPlayer } from './SpeechMiniPlayer';
+import { HandsFreeStatus } from './HandsFreeStatus';
+import { FollowUpSuggestions } from './FollowUpSuggestions';
+import { backendSuggestions, suggestFollowUps } from '../utils/suggestions';
+import { foldAnswerVariants } from '../utils/variants';
+import { useVoiceSettings } from '../hooks/useVoiceSettings';
+import { useSpeechPlayer } from '../hooks/useSpeechPlayer';
+import { useSpokenSentenceHighlight } from '../hooks/useSpokenSentenceHighlight';
+import { MESSAGE_PAGE_SIZE } from '../config';
 import './ChatInterface.css';
 
-// Lightweight runtime-safe aliases for SpeechRecognition types in environments without lib.dom
-// These keep TypeScript happy without requiring global DOM lib augmentation.
-// They intentionally use 'any' to avoid narrowing runtime behaviors.
-type SpeechRecognition = any;
-type SpeechRecognitionEvent = any;
-type SpeechRecognitionErrorEvent = any;
+// Distance from the top of the message list that triggers loading older messages
+const LOAD_OLDER_THRESHOLD_PX = 120;
 
-const isApiError = (err: unknown): err is { detail?: string } => {
+const isApiError = (err: unknown): err is { status?: number; detail?: string } => {
   return typeof err === 'object' && err !== null && 'detail' in (err as Record<string, unknown>);
 };
 
 interface ChatInterfaceProps {
   threadId: string | null;
   onThreadCreated: (threadId: string) => void;
+  // Switch to another thread (branches of this conversation)
+  onThreadSelect?: (threadId: string) => void;
   onError?: (error: string) => void;
+  // False while the backend is unreachable; messages are queued instead of sent
+  isOnline?: boolean;
+  // Message to scroll to and highlight once it has rendered (from a search result)
+  focusMessageKey?: string | null;
+  onFocusHandled?: () => void;
 }
 
 // Filter messages to only show user messages and assistant messages with content
@@ -40,16 +75,60 @@ const filterMessages = (messages: Message[]): Message[] => {
   });
 };
 
-export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterfaceProps) {
+export function ChatInterface({
+  threadId,
+  onThreadCreated,
+  onThreadSelect,
+  onError,
+  isOnline = true,
+  focusMessageKey = null,
+  onFocusHandled,
+}: ChatInterfaceProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [loadingMessages, setLoadingMessages] = useState(false);
+  // Partial assistant reply while a streamed response is arriving
+  const [streamingText, setStreamingText] = useState('');
+  const [activeTools, setActiveTools] = useState<string[]>([]);
+  // In-flight requests, tagged with the thread they belong to (null while it is being created)
+  const pendingSendRef = useRef<{ threadId: string | null; controller: AbortController } | null>(null);
+  const loadAbortRef = useRef<AbortController | null>(null);
+  // Fetch of an older page of the open thread
+  const olderAbortRef = useRef<AbortController | null>(null);
+  // Thread currently on screen, for dropping async results that arrive after a switch
+  const activeThreadRef = useRef<string | null>(threadId);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  // Server offset of the oldest loaded page; older messages exist while > 0
+  const [olderOffset, setOlderOffset] = useState(0);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  // Scroll metrics captured before prepending older messages, restored after render
+  const scrollRestoreRef = useRef<{ height: number; top: number } | null>(null);
+  const lastScrollTopRef = useRef(0);
+  const lastMessageKeyRef = useRef<string | null>(null);
+  // Keep the view on a focused search result instead of jumping to the newest message
+  const holdScrollRef = useRef(false);
+  const [highlightedKey, setHighlightedKey] = useState<string | null>(null);
+  // Editing a question forks the conversation into a new branch thread
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [branchProgress, setBranchProgress] = useState<BranchProgress | null>(null);
+  // Regenerated answers, shown as "1/3" variants of their first answer
+  const [variantGroups, setVariantGroups] = useState<AnswerVariants[]>([]);
+  const [comparing, setComparing] = useState<AnswerVariants | null>(null);
+  // The user's ratings of this thread's answers, by message key
+  const [feedbackByKey, setFeedbackByKey] = useState<Map<string, MessageFeedback>>(new Map());
+  // Threads of this conversation's branch family (root first), when it has branches
+  const [branchOptions, setBranchOptions] = useState<{ threadId: string; label: string; question?: string }[]>([]);
   const inputRef = useRef<HTMLTextAreaElement | HTMLInputElement>(null);
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
+  // Speech-to-text session of the provider chosen in settings
+  const voiceSettings = useVoiceSettings();
+  const sttRef = useRef<SpeechToTextProvider | null>(null);
+  const speechSupported = useMemo(() => createSpeechToTextProvider(voiceSettings).isSupported(), [voiceSettings]);
   const [isRecording, setIsRecording] = useState(false);
-  const [speechSupported, setSpeechSupported] = useState<boolean>(false);
+  // Recording has stopped and the provider is still transcribing it
+  const [isTranscribing, setIsTranscribing] = useState(false);
   const speechAccumRef = useRef<string>('');
   const speechBaseInputRef = useRef<string>('');
   const [speechInterim, setSpeechInterim] = useState('');
@@ -57,34 +136,37 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
   const inputComposedByVoiceRef = useRef<boolean>(false);
   // When true at submit time, auto-speak the next assistant response
   const autoSpeakNextAssistantRef = useRef<boolean>(false);
+  // Hands-free mode loops listen → send → speak; the ref is read by voice callbacks
+  const [handsFree, setHandsFree] = useState<HandsFreeMode>('off');
+  const handsFreeRef = useRef<HandsFreeMode>('off');
+  const silenceTimerRef = useRef<number | null>(null);
+  // Speech paused with the tab, to be resumed when it's back
+  const handsFreeSpeechPausedRef = useRef(false);
+  // Voice command waiting for a spoken yes or no
+  const pendingCommandRef = useRef<VoiceCommand | null>(null);
 
   // TTS state
-  const [isSpeaking, setIsSpeaking] = useState(false);
-  const [speakingMessageId, setSpeakingMessageId] = useState<string | number | null>(null);
-  const ttsAudioRef = useRef<HTMLAudioElement | null>(null);
-
-  // Minimal type shim for SpeechRecognition (for TS without DOM lib augmentations)
-  type SpeechRecognitionConstructor = new () => SpeechRecognition;
-  // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-  // @ts-ignore - allow vendor-prefixed property runtime check
-  const _SpeechRecognitionCtor: SpeechRecognitionConstructor | undefined = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+  const playerState = useSpeechPlayer();
+  useSpokenSentenceHighlight(playerState);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  const updateThreadTitle = (tid: string, allMessages: Message[]) => {
+  const updateThreadTitle = async (tid: string, allMessages: Message[]) => {
     const title = generateThreadTitle(allMessages);
     if (title) {
       // Get current thread info
-      const thread = storage.getThread(tid);
+      const thread = await storage.getThread(tid);
+      // Titles the user chose are never overwritten
+      if (thread?.user_title) return;
       if (thread) {
         // Update thread title
         const updatedThread = {
           ...thread,
           title,
         };
-        storage.addOrUpdateThread(updatedThread);
+        await storage.addOrUpdateThread(updatedThread);
         // Trigger thread list refresh
         window.dispatchEvent(new Event('threadUpdated'));
       } else {
@@ -96,42 +178,157 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
   };
 
   useEffect(() => {
+    if (holdScrollRef.current || focusMessageKey) return;
+    // Older pages are prepended; only follow the conversation when it grows at the end
+    const last = messages[messages.length - 1];
+    const lastKey = last ? getMessageKey(last) : null;
+    if (lastKey === lastMessageKeyRef.current && !streamingText) return;
+    lastMessageKeyRef.current = lastKey;
     scrollToBottom();
+  }, [messages, streamingText, focusMessageKey]);
+
+  // Keep the same messages on screen after older ones are prepended
+  useLayoutEffect(() => {
+    const restore = scrollRestoreRef.current;
+    const container = messagesContainerRef.current;
+    if (!restore || !container) return;
+    scrollRestoreRef.current = null;
+    container.scrollTop = container.scrollHeight - restore.height + restore.top;
   }, [messages]);
 
+  // Scroll to the focused message once it's rendered; retried as messages load
+  useEffect(() => {
+    if (!focusMessageKey) return;
+    const target = document.querySelector(`[data-message-key="${CSS.escape(focusMessageKey)}"]`);
+    if (!target) return;
+    holdScrollRef.current = true;
+    target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedKey(focusMessageKey);
+    onFocusHandled?.();
+  }, [messages, focusMessageKey, onFocusHandled]);
+
+  useEffect(() => {
+    if (!highlightedKey) return;
+    const timer = setTimeout(() => setHighlightedKey(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedKey]);
+
+  // Cancel requests that belong to another thread when the user switches away
+  useEffect(() => {
+    const pending = pendingSendRef.current;
+    if (pending && pending.threadId !== threadId) {
+      pending.controller.abort();
+    }
+    return () => {
+      loadAbortRef.current?.abort();
+      olderAbortRef.current?.abort();
+      olderAbortRef.current = null;
+    };
+  }, [threadId]);
+
   useEffect(() => {
+    activeThreadRef.current = threadId;
+    holdScrollRef.current = false;
+    setOlderOffset(0);
+    setLoadingOlder(false);
     if (threadId) {
-      // Load from cache first for instant display
-      const cachedMessages = storage.getMessages(threadId);
-      if (cachedMessages.length > 0) {
-        setMessages(filterMessages(cachedMessages));
-        // Update title from cached messages too
-        updateThreadTitle(threadId, cachedMessages);
-      }
-      // Then sync with API
-      loadMessages(threadId);
+      storage.touchThread(threadId);
+      // Load from cache first for instant display, then sync with API
+      storage.getMessages(threadId).then(cachedMessages => {
+        if (activeThreadRef.current !== threadId) return;
+        if (cachedMessages.length > 0) {
+          setMessages(filterMessages(cachedMessages));
+          // Update title from cached messages too
+          updateThreadTitle(threadId, cachedMessages);
+        }
+        loadMessages(threadId);
+      });
     } else {
       setMessages([]);
     }
   }, [threadId]);
 
   useEffect(() => {
-    setSpeechSupported(Boolean(_SpeechRecognitionCtor));
-  }, []);
+    setVariantGroups([]);
+    setComparing(null);
+    setFeedbackByKey(new Map());
+    if (!threadId) return;
+    let cancelled = false;
+    storage.getAnswerVariants(threadId).then(groups => {
+      if (!cancelled) setVariantGroups(groups);
+    });
+    storage.getFeedback(threadId).then(feedback => {
+      if (!cancelled) setFeedbackByKey(new Map(feedback.map(entry => [entry.messageKey, entry])));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [threadId]);
+
+  const folded = useMemo(() => foldAnswerVariants(messages, variantGroups), [messages, variantGroups]);
+  const lastMessage = folded.messages[folded.messages.length - 1];
 
-  // Cleanup TTS on unmount
   useEffect(() => {
+    setEditingKey(null);
+    if (!threadId) {
+      setBranchOptions([]);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      const family: ThreadBranch[] = await storage.getBranchFamily(threadId);
+      const existing = new Set((await storage.getThreads()).map(t => t.thread_id));
+      if (cancelled) return;
+      if (family.length === 0) {
+        setBranchOptions([]);
+        return;
+      }
+      // Deleted threads drop out of the switcher
+      setBranchOptions([
+        { threadId: family[0].rootThreadId, label: 'Original' },
+        ...family.map((branch, index) => ({
+          threadId: branch.threadId,
+          label: `Edit ${index + 1}`,
+          question: branch.question,
+        })),
+      ].filter(option => existing.has(option.threadId)));
+    })();
     return () => {
-      if (ttsAudioRef.current) {
-        try {
-          ttsAudioRef.current.pause();
-          ttsAudioRef.current.currentTime = 0;
-        } catch {}
-        ttsAudioRef.current = null;
+      cancelled = true;
+    };
+  }, [threadId]);
+
+  // Refresh the view when the outbox sends, retries or discards a queued message
+  useEffect(() => {
+    const handleOutboxUpdated = async (e: Event) => {
+      const { threadId: updatedId } = (e as CustomEvent<OutboxUpdatedDetail>).detail;
+      if (updatedId === threadId) {
+        const cachedMessages = await storage.getMessages(updatedId);
+        if (activeThreadRef.current !== updatedId) return;
+        setMessages(filterMessages(cachedMessages));
+        updateThreadTitle(updatedId, cachedMessages);
       }
-      setIsSpeaking(false);
-      setSpeakingMessageId(null);
     };
+    window.addEventListener('outboxUpdated', handleOutboxUpdated);
+    return () => window.removeEventListener('outboxUpdated', handleOutboxUpdated);
+  }, [threadId]);
+
+  // Drop the voice session when the provider changes or on unmount
+  useEffect(() => {
+    return () => sttRef.current?.abort();
+  }, [voiceSettings]);
+
+  // Leave hands-free mode on unmount so an aborted session isn't sent
+  useEffect(() => {
+    return () => {
+      handsFreeRef.current = 'off';
+      if (silenceTimerRef.current !== null) window.clearTimeout(silenceTimerRef.current);
+    };
+  }, []);
+
+  // Cleanup TTS on unmount
+  useEffect(() => {
+    return () => speechPlayer.stop();
   }, []);
 
   // Keyboard shortcuts: 'V' to start voice input, 'P' to stop while recording
@@ -171,21 +368,53 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
   }, [input]);
 
   const loadMessages = async (tid: string) => {
+    loadAbortRef.current?.abort();
+    // Threads created offline only exist in the cache until the outbox syncs them
+    if (isLocalThreadId(tid)) {
+      const cachedMessages = await storage.getMessages(tid);
+      if (activeThreadRef.current === tid) {
+        setMessages(filterMessages(cachedMessages));
+      }
+      return;
+    }
+
+    const controller = new AbortController();
+    loadAbortRef.current = controller;
     setLoadingMessages(true);
     try {
-      const data = await api.getMessages(tid, 200, 0);
-      const filtered = filterMessages(data.messages);
-      setMessages(filtered);
-      // Save to localStorage (save all messages, but display filtered)
-      storage.saveMessages(tid, data.messages);
+      // Fetch the newest page; the cached message count is a guess at where it starts
+      const thread = await storage.getThread(tid);
+      let offset = Math.max(0, (thread?.message_count ?? 0) - MESSAGE_PAGE_SIZE);
+      let data = await api.getMessages(tid, MESSAGE_PAGE_SIZE, offset, { signal: controller.signal });
+      if (data.offset + data.messages.length !== data.total) {
+        // The thread changed size since it was cached: fetch the actual last page
+        offset = Math.max(0, data.total - MESSAGE_PAGE_SIZE);
+        data = await api.getMessages(tid, MESSAGE_PAGE_SIZE, offset, { signal: controller.signal });
+      }
+      // Merge into the cache (save all messages, but display filtered),
+      // keeping older cached pages and messages still waiting in the outbox
+      const merged = await storage.syncMessages(tid, data.messages, {
+        isOldest: data.offset === 0,
+        isNewest: true,
+      });
+      if (activeThreadRef.current !== tid) return;
+      setMessages(filterMessages(merged));
+      setOlderOffset(data.offset);
       // Update thread title based on messages
-      updateThreadTitle(tid, data.messages);
+      updateThreadTitle(tid, merged);
     } catch (err) {
+      if (isAbortError(err)) {
+        return;
+      }
+      // Unknown or deleted thread: App shows the not-found view instead
+      if (isApiError(err) && err.status === 404) {
+        return;
+      }
       if (isApiError(err)) {
         const errorMsg = `Failed to load messages: ${err.detail}`;
         console.error(errorMsg);
         // If API fails, try to use cached messages if we don't have any
-        const cachedMessages = storage.getMessages(tid);
+        const cachedMessages = await storage.getMessages(tid);
         if (cachedMessages.length > 0) {
           // Only show error if we don't have cached messages to fall back to
           if (messages.length === 0) {
@@ -200,7 +429,7 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
         const errorMsg = 'Failed to load messages. Please try again.';
         console.error(errorMsg);
         // Fallback to cache if available
-        const cachedMessages = storage.getMessages(tid);
+        const cachedMessages = await storage.getMessages(tid);
         if (cachedMessages.length > 0 && messages.length === 0) {
           setMessages(filterMessages(cachedMessages));
           onError?.('Network error. Showing cached messages.');
@@ -209,11 +438,66 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
         }
       }
     } finally {
-      setLoadingMessages(false);
+      if (loadAbortRef.current === controller) {
+        loadAbortRef.current = null;
+        setLoadingMessages(false);
+      }
+    }
+  };
+
+  const loadOlderMessages = async () => {
+    const tid = threadId;
+    if (!tid || loadingOlder || olderOffset <= 0 || isLocalThreadId(tid)) return;
+    const offset = Math.max(0, olderOffset - MESSAGE_PAGE_SIZE);
+    // Aborted when the user switches threads or leaves the chat
+    const controller = new AbortController();
+    olderAbortRef.current = controller;
+    setLoadingOlder(true);
+    try {
+      const data = await api.getMessages(tid, olderOffset - offset, offset, { signal: controller.signal });
+      const merged = await storage.syncMessages(tid, data.messages, {
+        isOldest: offset === 0,
+        isNewest: false,
+      });
+      if (controller.signal.aborted || activeThreadRef.current !== tid) return;
+      const container = messagesContainerRef.current;
+      if (container) {
+        scrollRestoreRef.current = { height: container.scrollHeight, top: container.scrollTop };
+      }
+      setMessages(filterMessages(merged));
+      setOlderOffset(offset);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Failed to load older messages:', err);
+    } finally {
+      if (olderAbortRef.current === controller) {
+        olderAbortRef.current = null;
+        setLoadingOlder(false);
+      }
+    }
+  };
+
+  const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const container = e.currentTarget;
+    const scrollingUp = container.scrollTop < lastScrollTopRef.current;
+    lastScrollTopRef.current = container.scrollTop;
+    if (scrollingUp && container.scrollTop < LOAD_OLDER_THRESHOLD_PX) {
+      loadOlderMessages();
     }
   };
 
-  const sendMessage = async (message: string, overrideThreadId?: string) => {
+  /**
+   * Send a question and add the reply. With `regenerate`, the question is
+   * re-asked to get another answer to it: the reply is recorded as a variant of
+   * that answer and the repeated question is kept out of the conversation view.
+   * A `controller` started earlier (while creating the thread) lets Stop cancel
+   * the whole send.
+   */
+  const sendMessage = async (
+    message: string,
+    overrideThreadId?: string,
+    { regenerate, controller = new AbortController() }: { regenerate?: Message; controller?: AbortController } = {}
+  ) => {
     if (!message.trim() || loading) return;
 
     // Use override threadId if provided, otherwise use component's threadId
@@ -224,6 +508,19 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
       throw new Error('Thread ID is required to send a message');
     }
 
+    // Backend down (or thread not yet on the server): queue it for later
+    if (regenerate && (!isOnline || isLocalThreadId(finalThreadId))) {
+      throw new Error('Regenerating an answer needs a connection to the server');
+    }
+    if (!isOnline || isLocalThreadId(finalThreadId)) {
+      setInput('');
+      autoSpeakNextAssistantRef.current = false;
+      const queued = await outbox.enqueue(finalThreadId, message.trim());
+      setMessages(prev => [...prev, queued]);
+      updateThreadTitle(finalThreadId, await storage.getMessages(finalThreadId));
+      return;
+    }
+
     const userMessage: Message = {
       id: null,
       role: 'user',
@@ -231,19 +528,47 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
       timestamp: new Date().toISOString(),
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    if (!regenerate) {
+      setMessages(prev => [...prev, userMessage]);
+      setInput('');
+    }
+    setLoading(true);
+    setStreamingText('');
+    setActiveTools([]);
+
     // Save user message to localStorage
-    storage.addMessage(finalThreadId, userMessage);
+    await storage.addMessage(finalThreadId, userMessage);
     // Update thread title after adding user message
-    const allMessages = storage.getMessages(finalThreadId);
+    const allMessages = await storage.getMessages(finalThreadId);
     updateThreadTitle(finalThreadId, allMessages);
-    
-    setInput('');
-    setLoading(true);
+
+    const runningTools = new Map<string, string>();
+    const handleStreamEvent = (event: ChatStreamEvent) => {
+      switch (event.type) {
+        case 'text_delta':
+          setStreamingText(prev => prev + event.delta);
+          break;
+        case 'tool_call_start':
+          runningTools.set(event.tool_call_id, event.tool_name);
+          setActiveTools([...runningTools.values()]);
+          break;
+        case 'tool_call_end':
+          runningTools.delete(event.tool_call_id);
+          setActiveTools([...runningTools.values()]);
+          break;
+      }
+    };
+
+    pendingSendRef.current = { threadId: finalThreadId, controller };
 
     try {
-      // Now send the message with the thread_id
-      const response = await api.sendMessage(message.trim(), finalThreadId);
+      // Stream the reply with the thread_id (falls back to a single response)
+      const response = await api.streamMessage(
+        message.trim(),
+        finalThreadId,
+        handleStreamEvent,
+        { signal: controller.signal }
+      );
 
       const assistantMessage: Message = {
         id: response.message_id,
@@ -251,40 +576,64 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
         content: response.response,
         timestamp: response.timestamp,
         debug_info: response.debug_info,
+        suggestions: response.suggestions,
       };
 
       // Only add assistant message if it has content
       if (assistantMessage.content && assistantMessage.content.trim().length > 0) {
+        // Record the variant first so the new answer is folded in as soon as it shows
+        if (regenerate) {
+          const group = await storage.addAnswerVariant(finalThreadId, userMessage.content, regenerate, assistantMessage);
+          setVariantGroups(prev => [
+            ...prev.filter(g => !g.variants.some(m => getMessageKey(m) === getMessageKey(regenerate))),
+            group,
+          ]);
+        }
         setMessages(prev => [...prev, assistantMessage]);
         // Save assistant message to localStorage
-        storage.addMessage(finalThreadId, assistantMessage);
-        
+        await storage.addMessage(finalThreadId, assistantMessage);
+
         // Update thread title after adding messages
-        const allMessages = storage.getMessages(finalThreadId);
+        const allMessages = await storage.getMessages(finalThreadId);
         updateThreadTitle(finalThreadId, allMessages);
 
         // Auto TTS if the user message was voice-composed
         if (autoSpeakNextAssistantRef.current) {
           autoSpeakNextAssistantRef.current = false;
-          speakText(assistantMessage.id || null, assistantMessage.content);
+          speakAnswers([assistantMessage]);
         }
+      } else if (regenerate) {
+        // Nothing to show as a variant; drop the repeated question
+        await storage.removeMessage(finalThreadId, userMessage);
       }
     } catch (err) {
-      // Remove the user message if sending failed
-      setMessages(prev => {
-        const updated = prev.slice(0, -1);
-        // Also remove from localStorage
-        if (finalThreadId) {
-          const messages = storage.getMessages(finalThreadId);
-          const filtered = messages.filter(m => 
-            !(m.content === userMessage.content && 
-              m.role === userMessage.role && 
-              m.timestamp === userMessage.timestamp)
-          );
-          storage.saveMessages(finalThreadId, filtered);
-        }
-        return updated;
-      });
+      if (regenerate) {
+        await storage.removeMessage(finalThreadId, userMessage);
+        if (isAbortError(err)) return;
+        throw new Error(isApiError(err) && err.detail ? err.detail : 'Failed to regenerate the answer');
+      }
+
+      if (isAbortError(err)) {
+        // Keep the question, marked as cancelled, so the user can see what was stopped
+        autoSpeakNextAssistantRef.current = false;
+        setMessages(prev => prev.map(m => (m === userMessage ? { ...m, status: 'cancelled' } : m)));
+        await storage.updateMessage(finalThreadId, userMessage, { status: 'cancelled' });
+        return;
+      }
+
+      if (err instanceof TypeError) {
+        // Network failure: move the question to the outbox instead of dropping it
+        autoSpeakNextAssistantRef.current = false;
+        await storage.removeMessage(finalThreadId, userMessage);
+        const queued = await outbox.enqueue(finalThreadId, userMessage.content);
+        setMessages(prev => prev.map(m => (m === userMessage ? queued : m)));
+        window.dispatchEvent(new Event('backendUnreachable'));
+        return;
+      }
+
+      // Remove the user message if sending failed (also from localStorage)
+      setMessages(prev => prev.filter(m => m !== userMessage));
+      await storage.removeMessage(finalThreadId, userMessage);
       
       if (isApiError(err)) {
         throw new Error(err.detail || 'Failed to send message');
@@ -292,37 +641,76 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
         throw new Error('Failed to send message. Please try again.');
       }
     } finally {
+      if (pendingSendRef.current?.controller === controller) {
+        pendingSendRef.current = null;
+      }
       setLoading(false);
+      setStreamingText('');
+      setActiveTools([]);
       inputRef.current?.focus();
     }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || loading) return;
+    await askQuestion(input);
+  };
+
+  // Ask a question, starting a thread first on the welcome screen
+  const askQuestion = async (text: string) => {
+    if (!text.trim() || loading) return;
     
-    const messageText = input.trim();
-    // If input was composed via voice, auto-speak the next assistant response
-    autoSpeakNextAssistantRef.current = inputComposedByVoiceRef.current;
+    const messageText = text.trim();
+    const composedByVoice = inputComposedByVoiceRef.current;
     // Reset the composition flag now that we're submitting
     inputComposedByVoiceRef.current = false;
+    // Spoken control phrases ("new conversation") are run instead of sent
+    if (composedByVoice && handleVoiceCommand(messageText)) {
+      setInput('');
+      return;
+    }
+    // Typing something else drops an unanswered confirmation
+    pendingCommandRef.current = null;
+    // Follow the conversation again after reading an older search result
+    holdScrollRef.current = false;
+    // If input was composed via voice, auto-speak the next assistant response
+    autoSpeakNextAssistantRef.current = composedByVoice;
     let threadIdToUse = threadId;
     
+    // Offline: start a local thread that the outbox will create on the server later
+    if (!threadIdToUse && !isOnline) {
+      threadIdToUse = (await storage.createLocalThread()).thread_id;
+      onThreadCreated(threadIdToUse);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
     // If no threadId, create thread first and immediately navigate to chat view
+    let controller: AbortController | undefined;
     if (!threadIdToUse) {
+      // Stop works while the thread is being created, not only once the question is sent
+      controller = new AbortController();
+      const pending = { threadId: null as string | null, controller };
+      pendingSendRef.current = pending;
       try {
         setLoading(true);
-        const newThread = await api.createThread();
+        const newThread = await api.createThread(undefined, undefined, { signal: controller.signal });
         threadIdToUse = newThread.thread_id;
+        pending.threadId = threadIdToUse;
         // Save thread to localStorage
-        storage.addOrUpdateThread(newThread);
+        await storage.addOrUpdateThread(newThread);
         // Immediately notify parent to switch to chat view
         // This will cause a re-render with the new threadId
         onThreadCreated(threadIdToUse);
         // Small delay to allow the re-render to complete before adding messages
         await new Promise(resolve => setTimeout(resolve, 0));
+        if (controller.signal.aborted) {
+          throw new DOMException('The send was stopped', 'AbortError');
+        }
       } catch (err) {
+        if (pendingSendRef.current === pending) pendingSendRef.current = null;
         setLoading(false);
+        // Stopped: the question stays in the input
+        if (isAbortError(err)) return;
         const errorMessage = isApiError(err) 
           ? (err.detail || 'Failed to create thread')
           : 'Failed to create thread. Please try again.';
@@ -333,13 +721,144 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
     
     try {
       // sendMessage will add the user message and send to backend
-      await sendMessage(messageText, threadIdToUse);
+      await sendMessage(messageText, threadIdToUse, { controller });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to send message. Please try again.';
+      onError?.(errorMessage);
+    }
+  };
+
+  // Starter question picked for editing: put it in the input
+  const handleFillQuestion = (question: string) => {
+    inputComposedByVoiceRef.current = false;
+    setInput(question);
+    inputRef.current?.focus();
+  };
+
+  const handleSendQuestion = (question: string) => {
+    inputComposedByVoiceRef.current = false;
+    askQuestion(question);
+  };
+
+  // Ask a follow-up (suggestion chip, SQL panel) in this thread
+  const handleFollowUp = async (question: string) => {
+    if (!threadId) return;
+    holdScrollRef.current = false;
+    try {
+      await sendMessage(question, threadId);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to send message. Please try again.';
       onError?.(errorMessage);
     }
   };
 
+  // Re-run a (possibly edited) query from the SQL panel in this thread
+  const handleAskWithSql = (sql: string) => handleFollowUp(sqlFollowUpPrompt(sql));
+
+  // Follow-ups for an answer: the backend's suggestions, or local guesses
+  const followUpsFor = (answer: Message): string[] =>
+    backendSuggestions(answer.suggestions) ??
+    suggestFollowUps(questionBefore(answer)?.content ?? '', answer.debug_info);
+
+  // The question a displayed answer replies to
+  const questionBefore = (answer: Message): Message | undefined => {
+    const index = folded.messages.indexOf(answer);
+    return folded.messages.slice(0, index).reverse().find(m => m.role === 'user');
+  };
+
+  // Re-ask the question before the latest answer to get another variant of it
+  const handleRegenerate = async (answer: Message) => {
+    if (!threadId) return;
+    const question = questionBefore(answer);
+    if (!question) return;
+    holdScrollRef.current = false;
+    try {
+      await sendMessage(question.content, threadId, { regenerate: answer });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to regenerate the answer';
+      onError?.(errorMessage);
+    }
+  };
+
+  const handleSelectVariant = (group: AnswerVariants, selected: number) => {
+    if (!threadId) return;
+    const updated = { ...group, selected };
+    setVariantGroups(prev => prev.map(g => (g === group ? updated : g)));
+    storage.selectAnswerVariant(threadId, group.variants[0], selected);
+  };
+
+  const handleFeedback = async (answer: Message, input: FeedbackInput) => {
+    if (!threadId) return;
+    const key = getMessageKey(answer);
+    const question = questionBefore(answer);
+    const feedback = await recordFeedback(threadId, answer, question?.content ?? null, input, feedbackByKey.get(key) ?? null);
+    setFeedbackByKey(prev => new Map(prev).set(key, feedback));
+  };
+
+  const handleRemoveFeedback = async (answer: Message) => {
+    if (!threadId) return;
+    const key = getMessageKey(answer);
+    setFeedbackByKey(prev => {
+      const next = new Map(prev);
+      next.delete(key);
+      return next;
+    });
+    await removeFeedback(threadId, answer);
+  };
+
+  const closeCompare = useCallback(() => setComparing(null), []);
+
+  const startEdit = (msg: Message) => {
+    setEditingKey(getMessageKey(msg));
+    setEditDraft(msg.content);
+  };
+
+  // Fork the conversation before `msg` and continue the new branch with the edited question
+  const handleEditSubmit = async (msg: Message) => {
+    const question = editDraft.trim();
+    setEditingKey(null);
+    if (!threadId || !question || question === msg.content.trim()) return;
+
+    const history = await storage.getMessages(threadId);
+    const index = history.findIndex(m => getMessageKey(m) === getMessageKey(msg));
+    if (index < 0) {
+      onError?.('Could not find the message to edit');
+      return;
+    }
+    // Only questions the agent actually answered in this thread are replayed
+    const earlierQuestions = history
+      .slice(0, index)
+      .filter(m => m.role === 'user' && !m.status && !m.imported)
+      .map(m => m.content);
+
+    setBranchProgress({ replayed: 0, total: earlierQuestions.length });
+    let branchThreadId: string;
+    try {
+      branchThreadId = (await forkThread(threadId, earlierQuestions, question, setBranchProgress)).thread_id;
+    } catch (err) {
+      const detail = isApiError(err) ? err.detail : null;
+      onError?.(`Failed to create a branch${detail ? `: ${detail}` : ''}`);
+      return;
+    } finally {
+      setBranchProgress(null);
+    }
+
+    holdScrollRef.current = false;
+    onThreadCreated(branchThreadId);
+    // Let the switch to the branch render before sending into it
+    await new Promise(resolve => setTimeout(resolve, 0));
+    try {
+      await sendMessage(question, branchThreadId);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to send message. Please try again.';
+      onError?.(errorMessage);
+    }
+  };
+
+  const handleStop = () => {
+    pendingSendRef.current?.controller.abort();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -347,153 +866,233 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
     }
   };
 
-  const startRecording = () => {
-    if (!_SpeechRecognitionCtor || isRecording) return;
+  const startRecording = async () => {
+    if (isRecording || isTranscribing) return;
+    const provider = createSpeechToTextProvider(voiceSettings);
+    if (!provider.isSupported()) return;
+    // Initialize buffers so that only final results are shown
+    speechBaseInputRef.current = input;
+    speechAccumRef.current = '';
+    sttRef.current = provider;
     try {
-      // Initialize buffers so that only final results are shown
-      speechBaseInputRef.current = input;
-      speechAccumRef.current = '';
-      const recognition = new _SpeechRecognitionCtor();
-      recognitionRef.current = recognition;
-      recognition.continuous = true;
-      recognition.interimResults = true;
-      recognition.lang = navigator.language || 'en-US';
-      recognition.maxAlternatives = 1;
-
-      recognition.onresult = (event: SpeechRecognitionEvent) => {
-        let finalTranscript = '';
-        let interimTranscript = '';
-        for (let i = event.resultIndex; i < event.results.length; i++) {
-          const transcript = event.results[i][0].transcript;
-          if (event.results[i].isFinal) {
-            finalTranscript += transcript;
-          } else {
-            interimTranscript += transcript;
+      await provider.start({
+        onInterim: (text) => {
+          setSpeechInterim(text);
+          if (text) {
+            inputComposedByVoiceRef.current = true;
           }
-        }
-        if (finalTranscript) {
-          speechAccumRef.current += finalTranscript;
+        },
+        onFinal: (text) => {
+          speechAccumRef.current += text;
           const base = speechBaseInputRef.current.trimEnd();
-          const acc = speechAccumRef.current.trimStart();
+          const acc = speechAccumRef.current.trim();
           const combined = base && acc ? `${base} ${acc}` : `${base}${acc}`;
           setInput(combined);
           setSpeechInterim('');
           inputComposedByVoiceRef.current = true;
-        } else {
-          setSpeechInterim(interimTranscript);
-          if (interimTranscript) {
-            inputComposedByVoiceRef.current = true;
-          }
-        }
-      };
-
-      recognition.onerror = (e: SpeechRecognitionErrorEvent) => {
-        setIsRecording(false);
-        if (e.error !== 'no-speech') {
-          onError?.(`Speech recognition error: ${e.error}`);
-        }
-      };
-
-      recognition.onend = () => {
-        setIsRecording(false);
-        // Clear interim state on end (finals have already been applied)
-        speechAccumRef.current = speechAccumRef.current.trim();
-        setSpeechInterim('');
-      };
-
-      recognition.start();
+        },
+        onTranscribing: () => {
+          setIsRecording(false);
+          setIsTranscribing(true);
+        },
+        onSpeech: () => {
+          if (!sendsOnPause()) return;
+          // Send once the user has been quiet for the configured pause
+          clearSilenceTimer();
+          silenceTimerRef.current = window.setTimeout(() => {
+            silenceTimerRef.current = null;
+            if (sttRef.current === provider) provider.stop();
+          }, voiceSettings.handsFreeSilenceMs);
+        },
+        onError: (message) => {
+          // Don't retry a failing microphone in a loop
+          if (handsFreeRef.current !== 'off') setHandsFreeMode('off');
+          onError?.(message);
+        },
+        onEnd: () => {
+          if (sttRef.current === provider) sttRef.current = null;
+          clearSilenceTimer();
+          setIsRecording(false);
+          setIsTranscribing(false);
+          // Clear interim state on end (finals have already been applied)
+          speechAccumRef.current = speechAccumRef.current.trim();
+          setSpeechInterim('');
+          if (sendsOnPause()) finishVoiceTurn();
+        },
+      });
       setIsRecording(true);
     } catch (err) {
+      if (sttRef.current === provider) sttRef.current = null;
+      if (handsFreeRef.current !== 'off') setHandsFreeMode('off');
       setIsRecording(false);
-      onError?.('Unable to start speech recognition.');
+      onError?.(err instanceof Error && err.message ? err.message : 'Unable to start speech recognition.');
     }
   };
 
-  const stopRecording = () => {
-    const recognition = recognitionRef.current as SpeechRecognition | null;
-    if (recognition) {
-      // When stopping, commit any interim transcript as final into the input
-      const base = speechBaseInputRef.current.trimEnd();
-      const acc = speechAccumRef.current.trim();
-      const interim = speechInterim.trim();
-      const spoken = [acc, interim].filter(Boolean).join(' ').trim();
-      const combined = base && spoken ? `${base} ${spoken}` : `${base}${spoken}`;
-      if (combined) {
-        setInput(combined);
-      }
-      setSpeechInterim('');
-      recognition.onresult = null as unknown as (ev: Event) => void;
-      try { recognition.stop(); } catch {}
+  const clearSilenceTimer = () => {
+    if (silenceTimerRef.current === null) return;
+    window.clearTimeout(silenceTimerRef.current);
+    silenceTimerRef.current = null;
+  };
+
+  const setHandsFreeMode = (mode: HandsFreeMode) => {
+    handsFreeRef.current = mode;
+    setHandsFree(mode);
+  };
+
+  // Hands-free mode and spoken confirmations send the input after a pause
+  const sendsOnPause = () => handsFreeRef.current === 'on' || pendingCommandRef.current !== null;
+
+  // Send what was heard, or leave hands-free mode on "stop" / "exit"
+  const finishVoiceTurn = () => {
+    const spoken = speechAccumRef.current;
+    if (handsFreeRef.current === 'on' && isHandsFreeExit(spoken)) {
+      setHandsFreeMode('off');
+      pendingCommandRef.current = null;
+      setInput(speechBaseInputRef.current);
+      inputComposedByVoiceRef.current = false;
+      return;
+    }
+    const base = speechBaseInputRef.current.trimEnd();
+    const question = base && spoken ? `${base} ${spoken}` : `${base}${spoken}`;
+    if (question.trim()) {
+      askQuestion(question);
+    } else if (handsFreeRef.current !== 'on') {
+      // No answer to a confirmation; hands-free mode just listens again
+      pendingCommandRef.current = null;
     }
-    setIsRecording(false);
   };
 
-  // TTS controls using Puter.js
-  const stopTTS = () => {
-    const audio = ttsAudioRef.current;
-    if (audio) {
-      try {
-        audio.pause();
-        audio.currentTime = 0;
-      } catch {}
-      ttsAudioRef.current = null;
+  const toggleHandsFree = () => {
+    if (handsFree !== 'off') {
+      setHandsFreeMode('off');
+      clearSilenceTimer();
+      sttRef.current?.abort();
+      return;
+    }
+    if (!speechSupported) {
+      toggleRecording();
+      return;
     }
-    setIsSpeaking(false);
-    setSpeakingMessageId(null);
+    // Listening starts from the loop below
+    setHandsFreeMode('on');
   };
 
-  const speakText = async (messageId: string | number | null, text: string) => {
-    if (!text || !text.trim()) return;
+  const stopRecording = () => {
+    // The provider delivers any pending words as final text before ending
+    sttRef.current?.stop();
+    setIsRecording(false);
+  };
+
+  // TTS: the player reads a queue of answers with the provider and voice from settings
+  const speakAnswers = async (answers: Message[]) => {
+    const items: SpeechItem[] = answers
+      .filter(answer => answer.content?.trim())
+      .map(answer => ({ key: getMessageKey(answer), text: answer.content }));
+    if (items.length === 0) return;
     try {
-      // Stop any ongoing playback first
-      stopTTS();
+      await speechPlayer.speak(items, voiceSettings, {
+        onError: (message) => onError?.(message),
+      });
+    } catch (err) {
+      onError?.(err instanceof Error && err.message ? `Text-to-speech failed: ${err.message}` : 'Failed to start text-to-speech.');
+    }
+  };
 
-      const puter = (window as any).puter;
-      if (!puter || !puter.ai || !puter.ai.txt2speech) {
-        onError?.('Text-to-Speech not available. Ensure Puter.js is loaded.');
-        return;
-      }
+  // Queue this answer and every later one in the thread
+  const readAnswersFrom = (answer: Message) => {
+    const answers = folded.messages.filter(m => m.role === 'assistant');
+    speakAnswers(answers.slice(Math.max(answers.indexOf(answer), 0)));
+  };
 
-      setSpeakingMessageId(messageId);
-      setIsSpeaking(true);
+  // Short spoken feedback to a voice command
+  const speakReply = async (text: string, onEnd?: () => void) => {
+    try {
+      await speechPlayer.speak([{ key: 'voice-reply', text }], voiceSettings, {
+        onEnd,
+        onError: (message) => onError?.(message),
+      });
+    } catch (err) {
+      onError?.(err instanceof Error && err.message ? `Text-to-speech failed: ${err.message}` : 'Failed to start text-to-speech.');
+    }
+  };
 
-      const audio: HTMLAudioElement = await puter.ai.txt2speech(text);
-      ttsAudioRef.current = audio;
+  // Open and scroll to the SQL of the latest answer that ran any
+  const showLatestSql = () => {
+    const answer = [...folded.messages]
+      .reverse()
+      .find(m => m.role === 'assistant' && extractSqlQueries(m.debug_info).length > 0);
+    const panel = answer
+      ? document.querySelector<HTMLDetailsElement>(`[data-message-key="${CSS.escape(getMessageKey(answer))}"] .sql-panel`)
+      : null;
+    if (!panel) {
+      speakReply('No answer in this conversation ran any SQL.');
+      return;
+    }
+    panel.open = true;
+    panel.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
 
-      const handleEnded = () => {
-        setIsSpeaking(false);
-        setSpeakingMessageId(null);
-        if (ttsAudioRef.current === audio) {
-          ttsAudioRef.current = null;
+  const runVoiceCommand = (command: VoiceCommand) => {
+    switch (command.type) {
+      case 'readAgain': {
+        const answer = [...folded.messages].reverse().find(m => m.role === 'assistant' && m.content?.trim());
+        if (answer) {
+          speakAnswers([answer]);
+        } else {
+          speakReply('There is no answer to read yet.');
         }
-        audio.removeEventListener('ended', handleEnded);
-        audio.removeEventListener('pause', handlePause);
-        audio.removeEventListener('error', handleError);
-      };
-      const handlePause = () => {
-        // If paused because of stopTTS, state already updated there
-      };
-      const handleError = () => {
-        setIsSpeaking(false);
-        setSpeakingMessageId(null);
-        onError?.('Failed to play audio.');
-      };
+        break;
+      }
+      case 'showSql':
+        showLatestSql();
+        break;
+      default:
+        // Navigation, deleting and the theme belong to App and ThreadSidebar
+        window.dispatchEvent(new CustomEvent<VoiceCommandDetail>('voiceCommand', { detail: { command } }));
+    }
+  };
 
-      audio.addEventListener('ended', handleEnded);
-      audio.addEventListener('pause', handlePause);
-      audio.addEventListener('error', handleError);
+  // Whether voice input was a command (or the answer to a confirmation) rather than a question
+  const handleVoiceCommand = (transcript: string): boolean => {
+    const pending = pendingCommandRef.current;
+    if (pending) {
+      pendingCommandRef.current = null;
+      const confirmed = parseConfirmation(transcript);
+      if (confirmed === true) {
+        runVoiceCommand(pending);
+        return true;
+      }
+      if (confirmed === false) {
+        speakReply('Okay, cancelled.');
+        return true;
+      }
+      // Not an answer: drop the question and treat this as a command or question of its own
+    }
 
-      await audio.play();
-    } catch (e) {
-      setIsSpeaking(false);
-      setSpeakingMessageId(null);
-      onError?.('Failed to start text-to-speech.');
+    const match = parseVoiceCommand(transcript);
+    if (!match) return false;
+    if (match.command.type === 'deleteConversation' && !threadId) {
+      speakReply('There is no conversation open to delete.');
+      return true;
     }
+    if (!match.confirmation) {
+      runVoiceCommand(match.command);
+      return true;
+    }
+    pendingCommandRef.current = match.command;
+    speakReply(match.confirmation, () => {
+      // Hands-free mode listens again by itself; otherwise listen once for the answer
+      if (handsFreeRef.current === 'off' && pendingCommandRef.current) startRecordingRef.current();
+    });
+    return true;
   };
 
   const toggleRecording = () => {
     if (!speechSupported) {
-      onError?.('Speech recognition is not supported in this browser.');
+      onError?.(voiceSettings.sttProvider === 'recorder'
+        ? 'Set a transcription endpoint in settings to use voice input.'
+        : 'Speech recognition is not supported in this browser. Choose the transcription server in settings.');
       return;
     }
     if (isRecording) {
@@ -503,6 +1102,71 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
     }
   };
 
+  // The hands-free loop calls the latest startRecording without re-running on every render
+  const startRecordingRef = useRef(startRecording);
+  useEffect(() => {
+    startRecordingRef.current = startRecording;
+  });
+
+  // Hands-free loop: listen whenever nothing is being heard, asked or read aloud
+  useEffect(() => {
+    if (handsFree !== 'on' || isRecording || isTranscribing || sttRef.current) return;
+    if (loading || playerState.status !== 'idle') return;
+    startRecordingRef.current();
+  }, [handsFree, isRecording, isTranscribing, loading, playerState.status]);
+
+  // Hands-free pauses while the tab is hidden or unfocused, so it doesn't answer other apps
+  useEffect(() => {
+    if (handsFree === 'off') return;
+    const handleFocusChange = () => {
+      const away = document.hidden || !document.hasFocus();
+      if (away && handsFree === 'on') {
+        handsFreeRef.current = 'paused';
+        setHandsFree('paused');
+        sttRef.current?.abort();
+        const { status } = speechPlayer.getState();
+        handsFreeSpeechPausedRef.current = status === 'playing' || status === 'loading';
+        if (handsFreeSpeechPausedRef.current) speechPlayer.pause();
+      } else if (!away && handsFree === 'paused') {
+        handsFreeRef.current = 'on';
+        setHandsFree('on');
+        if (handsFreeSpeechPausedRef.current) speechPlayer.resume();
+        handsFreeSpeechPausedRef.current = false;
+      }
+    };
+    window.addEventListener('blur', handleFocusChange);
+    window.addEventListener('focus', handleFocusChange);
+    document.addEventListener('visibilitychange', handleFocusChange);
+    return () => {
+      window.removeEventListener('blur', handleFocusChange);
+      window.removeEventListener('focus', handleFocusChange);
+      document.removeEventListener('visibilitychange', handleFocusChange);
+    };
+  }, [handsFree]);
+
+  const handsFreeState = handsFreePhase(handsFree, {
+    thinking: loading || isTranscribing,
+    speaking: playerState.status !== 'idle',
+  });
+
+  // Shared by the welcome and chat input rows, next to the mic button
+  const handsFreeButton = (
+    <button
+      type="button"
+      className={`mic-button hands-free-button ${handsFree !== 'off' ? 'active' : ''}`}
+      onClick={toggleHandsFree}
+      aria-pressed={handsFree !== 'off'}
+      aria-label="Hands-free mode"
+      title={handsFree !== 'off' ? 'Exit hands-free mode' : 'Hands-free mode: listen, send and read answers aloud in a loop'}
+    >
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+        <path d="M3 18v-6a9 9 0 0 1 18 0v6"/>
+        <path d="M21 19a2 2 0 0 1-2 2h-1a2 2 0 0 1-2-2v-3a2 2 0 0 1 2-2h3z"/>
+        <path d="M3 19a2 2 0 0 0 2 2h1a2 2 0 0 0 2-2v-3a2 2 0 0 0-2-2H3z"/>
+      </svg>
+    </button>
+  );
+
   const formatTimestamp = (timestamp: string | null) => {
     if (!timestamp) return '';
     const date = new Date(timestamp);
@@ -520,47 +1184,14 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
             <p className="welcome-subtitle">How can I help you today?</p>
           </div>
 
-          <div className="feature-cards">
-            <div className="feature-card">
-              <div className="feature-icon">
-                <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <circle cx="12" cy="12" r="10"/>
-                  <path d="M12 6v6l4 2"/>
-                </svg>
-              </div>
-              <h3 className="feature-title">Query Database</h3>
-              <p className="feature-description">Ask questions about albums, artists, customers, and sales data</p>
-            </div>
-
-            <div className="feature-card">
-              <div className="feature-icon">
-                <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <path d="M3 3h7v7H3z"/>
-                  <path d="M14 3h7v7h-7z"/>
-                  <path d="M14 14h7v7h-7z"/>
-                  <path d="M3 14h7v7H3z"/>
-                </svg>
-              </div>
-              <h3 className="feature-title">Sales Analytics</h3>
-              <p className="feature-description">Get insights into sales trends and customer purchases</p>
-            </div>
-
-            <div className="feature-card">
-              <div className="feature-icon">
-                <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/>
-                  <path d="M14 2v6h6"/>
-                  <path d="M16 13H8"/>
-                  <path d="M16 17H8"/>
-                  <path d="M10 9H8"/>
-                </svg>
-              </div>
-              <h3 className="feature-title">Data Insights</h3>
-              <p className="feature-description">Explore tracks, playlists, and comprehensive data analysis</p>
-            </div>
-          </div>
+          <StarterQuestions
+            onFill={handleFillQuestion}
+            onSend={handleSendQuestion}
+            disabled={loading}
+          />
 
           <div className="welcome-input-container">
+            <HandsFreeStatus phase={handsFreeState} onExit={toggleHandsFree} />
             <form className="welcome-input-form" onSubmit={handleSubmit}>
               <div className="input-wrapper">
                 {isRecording && (
@@ -593,8 +1224,8 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
                 className={`mic-button ${isRecording ? 'recording' : ''}`}
                 onClick={toggleRecording}
                 aria-label={isRecording ? 'Stop recording' : 'Start recording'}
-                title={speechSupported ? (isRecording ? 'Stop recording' : 'Start recording') : 'Speech not supported in this browser'}
-                disabled={loading}
+                title={isTranscribing ? 'Transcribing…' : speechSupported ? (isRecording ? 'Stop recording' : 'Start recording') : 'Voice input unavailable; choose a provider in settings'}
+                disabled={loading || isTranscribing}
               >
                 {isRecording ? (
                   <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
@@ -610,24 +1241,39 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
                 )}
                 <span className="mic-pulse" aria-hidden="true"></span>
               </button>
-              <button
-                type="submit"
-                className="welcome-send-button"
-                disabled={loading || !input.trim()}
-                aria-label="Send message"
-              >
-                <svg
-                  width="20"
-                  height="20"
-                  viewBox="0 0 24 24"
-                  fill="none"
-                  stroke="currentColor"
-                  strokeWidth="2"
+              {handsFreeButton}
+              {loading ? (
+                <button
+                  type="button"
+                  className="welcome-send-button stop-button"
+                  onClick={handleStop}
+                  aria-label="Stop generating"
+                  title="Stop generating"
                 >
-                  <line x1="22" y1="2" x2="11" y2="13"></line>
-                  <polygon points="22 2 15 22 11 13 2 9 22 2"></polygon>
-                </svg>
-              </button>
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+                    <rect x="7" y="7" width="10" height="10" rx="2" ry="2"/>
+                  </svg>
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  className="welcome-send-button"
+                  disabled={loading || !input.trim()}
+                  aria-label="Send message"
+                >
+                  <svg
+                    width="20"
+                    height="20"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                  >
+                    <line x1="22" y1="2" x2="11" y2="13"></line>
+                    <polygon points="22 2 15 22 11 13 2 9 22 2"></polygon>
+                  </svg>
+                </button>
+              )}
             </form>
           </div>
         </div>
@@ -644,83 +1290,270 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
         </div>
       )}
 
-      <div className="messages-container">
+      <div
+        className="messages-container"
+        ref={messagesContainerRef}
+        onScroll={handleMessagesScroll}
+      >
         <div className="messages">
-          {messages.map((msg, idx) => (
-            <div key={msg.id || idx} className={`message ${msg.role}`}>
-              {msg.role === 'assistant' && (
-                <img 
-                  src="/ai-icon.png" 
-                  alt="AI Assistant" 
-                  className="message-avatar" 
-                />
-              )}
-              <div className="message-content">
-                <div className="message-text">
-                  {msg.role === 'assistant' ? (
-                    <ReactMarkdown>{msg.content}</ReactMarkdown>
-                  ) : (
-                    msg.content
-                  )}
-                </div>
-                {msg.timestamp && (
-                  <div className="message-timestamp">
-                    {formatTimestamp(msg.timestamp)}
-                  </div>
+          {branchOptions.length > 1 && (
+            <div className="branch-switcher" role="group" aria-label="Conversation branches">
+              <span className="branch-switcher-label">Branches:</span>
+              {branchOptions.map(option => (
+                <button
+                  key={option.threadId}
+                  type="button"
+                  className={`branch-option${option.threadId === threadId ? ' active' : ''}`}
+                  title={option.question}
+                  aria-current={option.threadId === threadId ? 'true' : undefined}
+                  onClick={() => option.threadId !== threadId && onThreadSelect?.(option.threadId)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+          {loadingOlder && (
+            <div className="loading-older">
+              <div className="spinner"></div>
+              <span>Loading earlier messages...</span>
+            </div>
+          )}
+          {folded.messages.map((msg, idx) => {
+            const variants = folded.variantsByKey.get(getMessageKey(msg));
+            const canRegenerate = msg.role === 'assistant' && msg === lastMessage && !isLocalThreadId(threadId);
+            return (
+              <div
+                key={msg.id || idx}
+                data-message-key={getMessageKey(msg)}
+                className={`message ${msg.role}${msg.status ? ` ${msg.status}` : ''}${highlightedKey === getMessageKey(msg) ? ' highlighted' : ''}`}
+              >
+                {msg.role === 'assistant' && (
+                  <img 
+                    src="/ai-icon.png" 
+                    alt="AI Assistant" 
+                    className="message-avatar" 
+                  />
                 )}
-                {msg.role === 'assistant' && msg.content?.trim() && (
-                  <div className="tts-controls">
-                    <button
-                      type="button"
-                      className={`tts-button ${isSpeaking && (speakingMessageId === (msg.id || idx)) ? 'speaking' : ''}`}
-                      onClick={() => speakText(msg.id || idx, msg.content)}
-                      aria-label="Speak message"
+                <div className="message-content">
+                  {editingKey === getMessageKey(msg) ? (
+                    <form
+                      className="message-edit"
+                      onSubmit={e => {
+                        e.preventDefault();
+                        handleEditSubmit(msg);
+                      }}
                     >
-                      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
-                        <path d="M11 5l6 4-6 4V5z"/>
-                        <path d="M4 19a9 9 0 0 0 0-14"/>
-                      </svg>
-                      <span>{isSpeaking && (speakingMessageId === (msg.id || idx)) ? 'Speaking…' : 'Speak'}</span>
-                    </button>
-                  </div>
-                )}
-                {msg.role === 'assistant' && msg.debug_info && (
-                  <div className="debug-info-container">
-                    <details className="debug-details">
-                      <summary>Debug Details</summary>
-                      <div className="debug-content">
-                        <div className="debug-meta">
-                          <span className="debug-label">Model:</span> {msg.debug_info.model_name || 'Unknown'}
-                          <span className="debug-separator">|</span>
-                          <span className="debug-label">Steps:</span> {msg.debug_info.step_count}
-                        </div>
-                        {msg.debug_info.tool_calls && msg.debug_info.tool_calls.length > 0 && (
-                          <div className="debug-tools">
-                            <div className="debug-tools-header">Tool Execution:</div>
-                            <ul className="debug-tools-list">
-                              {msg.debug_info.tool_calls.map((tool, toolIdx) => (
-                                <li key={toolIdx} className="debug-tool-item">
-                                  <div className="debug-tool-name">{tool.tool_name}</div>
-                                  <div className="debug-tool-args">
-                                    <span className="debug-label">Args:</span> 
-                                    <pre>{JSON.stringify(tool.args, null, 2)}</pre>
-                                  </div>
-                                  <div className="debug-tool-output">
-                                    <span className="debug-label">Output:</span>
-                                    <pre>{tool.output || '(No output)'}</pre>
-                                  </div>
-                                </li>
-                              ))}
-                            </ul>
-                          </div>
-                        )}
+                      <textarea
+                        className="message-edit-input"
+                        value={editDraft}
+                        onChange={e => setEditDraft(e.target.value)}
+                        onKeyDown={e => {
+                          if (e.key === 'Escape') setEditingKey(null);
+                          if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault();
+                            handleEditSubmit(msg);
+                          }
+                        }}
+                        rows={3}
+                        autoFocus
+                        aria-label="Edit question"
+                      />
+                      <div className="message-edit-actions">
+                        <button type="button" onClick={() => setEditingKey(null)}>
+                          Cancel
+                        </button>
+                        <button type="submit" className="primary" disabled={!editDraft.trim()}>
+                          Save &amp; branch
+                        </button>
                       </div>
-                    </details>
-                  </div>
-                )}
+                    </form>
+                  ) : (
+                    <div className="message-text">
+                      {msg.role === 'assistant' ? (
+                        <MarkdownMessage content={msg.content} />
+                      ) : (
+                        msg.content
+                      )}
+                    </div>
+                  )}
+                  {msg.timestamp && (
+                    <div className="message-timestamp">
+                      {formatTimestamp(msg.timestamp)}
+                      {msg.status === 'cancelled' && (
+                        <span className="message-status"> · Cancelled</span>
+                      )}
+                      {msg.status === 'pending' && (
+                        <span className="message-status"> · Waiting to send</span>
+                      )}
+                      {msg.status === 'failed' && (
+                        <span className="message-status"> · Not sent</span>
+                      )}
+                      {msg.role === 'user' && !msg.status && !msg.imported && editingKey !== getMessageKey(msg) && threadId && !isLocalThreadId(threadId) && (
+                        <button
+                          type="button"
+                          className="message-edit-btn"
+                          onClick={() => startEdit(msg)}
+                          disabled={loading || !!branchProgress || !isOnline}
+                          title={isOnline ? 'Edit and resend as a new branch' : 'Editing needs a connection'}
+                        >
+                          Edit
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {(msg.status === 'pending' || msg.status === 'failed') && msg.client_id && (
+                    <div className="outbox-actions">
+                      <button type="button" onClick={() => outbox.retry(msg.client_id!)}>
+                        Retry
+                      </button>
+                      <button type="button" onClick={() => outbox.discard(msg.client_id!)}>
+                        Discard
+                      </button>
+                    </div>
+                  )}
+                  {(variants || canRegenerate) && (
+                    <div className="variant-controls">
+                      {variants && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => handleSelectVariant(variants, variants.selected - 1)}
+                            disabled={variants.selected === 0}
+                            aria-label="Previous answer"
+                          >
+                            ‹
+                          </button>
+                          <span className="variant-position">
+                            {variants.selected + 1}/{variants.variants.length}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => handleSelectVariant(variants, variants.selected + 1)}
+                            disabled={variants.selected === variants.variants.length - 1}
+                            aria-label="Next answer"
+                          >
+                            ›
+                          </button>
+                          <button type="button" onClick={() => setComparing(variants)}>
+                            Compare
+                          </button>
+                        </>
+                      )}
+                      {canRegenerate && (
+                        <button
+                          type="button"
+                          onClick={() => handleRegenerate(msg)}
+                          disabled={loading || !isOnline}
+                          title={isOnline ? 'Ask the question again for another answer' : 'Regenerating needs a connection'}
+                        >
+                          ↻ Regenerate
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {msg === lastMessage && msg.role === 'assistant' && !loading && (
+                    <FollowUpSuggestions
+                      suggestions={followUpsFor(msg)}
+                      onSelect={handleFollowUp}
+                      disabled={loading}
+                    />
+                  )}
+                  {msg.role === 'assistant' && msg.content?.trim() && (
+                    <FeedbackControls
+                      feedback={feedbackByKey.get(getMessageKey(msg)) ?? null}
+                      onSave={input => handleFeedback(msg, input)}
+                      onRemove={() => handleRemoveFeedback(msg)}
+                    />
+                  )}
+                  {msg.role === 'assistant' && msg.content?.trim() && (
+                    <div className="tts-controls">
+                      <button
+                        type="button"
+                        className={`tts-button ${playerState.itemKey === getMessageKey(msg) ? 'speaking' : ''}`}
+                        onClick={() => speakAnswers([msg])}
+                        aria-label="Speak message"
+                      >
+                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+                          <path d="M11 5l6 4-6 4V5z"/>
+                          <path d="M4 19a9 9 0 0 0 0-14"/>
+                        </svg>
+                        <span>{playerState.itemKey === getMessageKey(msg) ? 'Speaking…' : 'Speak'}</span>
+                      </button>
+                      <button
+                        type="button"
+                        className="tts-button"
+                        onClick={() => readAnswersFrom(msg)}
+                        aria-label="Read from here"
+                        title="Read this answer and the ones after it"
+                      >
+                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+                          <line x1="8" y1="6" x2="21" y2="6"/>
+                          <line x1="8" y1="12" x2="21" y2="12"/>
+                          <line x1="8" y1="18" x2="21" y2="18"/>
+                          <path d="M3 5l3 1-3 1V5z"/>
+                        </svg>
+                        <span>Read from here</span>
+                      </button>
+                    </div>
+                  )}
+                  {msg.role === 'assistant' && msg.debug_info && (
+                    <SqlPanel
+                      queries={extractSqlQueries(msg.debug_info)}
+                      onAskAgain={handleAskWithSql}
+                      disabled={loading}
+                    />
+                  )}
+                  {msg.role === 'assistant' && msg.debug_info && (
+                    <ChartPanel debugInfo={msg.debug_info} onError={onError} />
+                  )}
+                  {msg.role === 'assistant' && msg.debug_info && (
+                    <div className="debug-info-container">
+                      <details className="debug-details">
+                        <summary>Debug Details</summary>
+                        <div className="debug-content">
+                          <div className="debug-meta">
+                            <span className="debug-label">Model:</span> {msg.debug_info.model_name || 'Unknown'}
+                            <span className="debug-separator">|</span>
+                            <span className="debug-label">Steps:</span> {msg.debug_info.step_count}
+                          </div>
+                          {msg.debug_info.tool_calls && msg.debug_info.tool_calls.length > 0 && (
+                            <div className="debug-tools">
+                              <div className="debug-tools-header">Tool Execution:</div>
+                              <ul className="debug-tools-list">
+                                {msg.debug_info.tool_calls.map((tool, toolIdx) => (
+                                  <li key={toolIdx} className="debug-tool-item">
+                                    <div className="debug-tool-name">{tool.tool_name}</div>
+                                    <div className="debug-tool-args">
+                                      <span className="debug-label">Args:</span> 
+                                      <pre>{JSON.stringify(tool.args, null, 2)}</pre>
+                                    </div>
+                                    <div className="debug-tool-output">
+                                      <span className="debug-label">Output:</span>
+                                      <ToolOutput output={tool.output} sql={toolCallSql(tool)} filename={tool.tool_name} />
+                                    </div>
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
+                        </div>
+                      </details>
+                    </div>
+                  )}
+                </div>
               </div>
+            );
+          })}
+          {branchProgress && (
+            <div className="branch-progress" role="status">
+              <div className="spinner"></div>
+              <span>
+                Creating branch…
+                {branchProgress.total > 0 && ` replaying question ${Math.min(branchProgress.replayed + 1, branchProgress.total)} of ${branchProgress.total}`}
+              </span>
             </div>
-          ))}
+          )}
           {loading && (
             <div className="message assistant">
               <img 
@@ -729,14 +1562,23 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
                 className="message-avatar" 
               />
               <div className="message-content">
-                <div className="message-text thinking">
-                  <span className="typing-indicator">
-                    <span></span>
-                    <span></span>
-                    <span></span>
-                  </span>
-                  Thinking...
-                </div>
+                {streamingText ? (
+                  <div className="message-text streaming">
+                    <MarkdownMessage content={streamingText} />
+                  </div>
+                ) : (
+                  <div className="message-text thinking">
+                    <span className="typing-indicator">
+                      <span></span>
+                      <span></span>
+                      <span></span>
+                    </span>
+                    {activeTools.length > 0 ? `Running ${activeTools.join(', ')}...` : 'Thinking...'}
+                  </div>
+                )}
+                {streamingText && activeTools.length > 0 && (
+                  <div className="streaming-tools">Running {activeTools.join(', ')}...</div>
+                )}
               </div>
             </div>
           )}
@@ -745,6 +1587,7 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
       </div>
 
       <form className="chat-input-form" onSubmit={handleSubmit}>
+        <HandsFreeStatus phase={handsFreeState} onExit={toggleHandsFree} />
         <div className="input-container">
           <div className="input-wrapper">
             {isRecording && (
@@ -773,8 +1616,8 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
             className={`mic-button ${isRecording ? 'recording' : ''}`}
             onClick={toggleRecording}
             aria-label={isRecording ? 'Stop recording' : 'Start recording'}
-            title={speechSupported ? (isRecording ? 'Stop recording' : 'Start recording') : 'Speech not supported in this browser'}
-            disabled={loading}
+            title={isTranscribing ? 'Transcribing…' : speechSupported ? (isRecording ? 'Stop recording' : 'Start recording') : 'Voice input unavailable; choose a provider in settings'}
+            disabled={loading || isTranscribing}
           >
           {isRecording ? (
             <svg
@@ -806,15 +1649,26 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
           )}
             <span className="mic-pulse" aria-hidden="true"></span>
           </button>
-          <button
-            type="submit"
-            className="send-button"
-            disabled={loading || !input.trim()}
-            aria-label="Send message"
-          >
-            {loading ? (
-              <div className="spinner small"></div>
-            ) : (
+          {handsFreeButton}
+          {loading ? (
+            <button
+              type="button"
+              className="send-button stop-button"
+              onClick={handleStop}
+              aria-label="Stop generating"
+              title="Stop generating"
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+                <rect x="7" y="7" width="10" height="10" rx="2" ry="2"/>
+              </svg>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              className="send-button"
+              disabled={!input.trim()}
+              aria-label="Send message"
+            >
               <svg
                 width="20"
                 height="20"
@@ -826,27 +1680,16 @@ export function ChatInterface({ threadId, onThreadCreated, onError }: ChatInterf
                 <line x1="22" y1="2" x2="11" y2="13"></line>
                 <polygon points="22 2 15 22 11 13 2 9 22 2"></polygon>
               </svg>
-            )}
-          </button>
+            </button>
+          )}
         </div>
       </form>
 
-      {isSpeaking && (
-        <div className="tts-stop-overlay">
-          <button
-            type="button"
-            className="tts-stop-button"
-            onClick={stopTTS}
-            aria-label="Stop dictation"
-            title="Stop dictation"
-          >
-            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
-              <rect x="7" y="7" width="10" height="10" rx="2" ry="2"/>
-            </svg>
-            <span>Stop</span>
-          </button>
-        </div>
+      {comparing && (
+        <VariantCompare group={comparing} onClose={closeCompare} />
       )}
+
+      <SpeechMiniPlayer />
     </div>
   );
 }
@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+import { highlightCode } from '../utils/highlight';
+import './CodeHighlight.css';
+
+interface CodeHighlightProps {
+  code: string;
+  language: string | null;
+}
+
+export function CodeHighlight({ code, language }: CodeHighlightProps) {
+  const tokens = useMemo(() => highlightCode(code, language), [code, language]);
+  return (
+    <code className={language ? `code-highlight language-${language}` : 'code-highlight'}>
+      {tokens
+        ? tokens.map((token, index) =>
+            token.type === 'whitespace' || token.type === 'punctuation' ? (
+              token.text
+            ) : (
+              <span key={index} className={`code-${token.type}`}>{token.text}</span>
+            )
+          )
+        : code}
+    </code>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState, useMemo } from 'react';
+import type { TableData, TableCell } from '../utils/toolOutput';
+import { toCsv } from '../utils/csv';
+import { downloadFile, slugify } from '../utils/download';
+import './DataTable.css';
+
+interface DataTableProps {
+  data: TableData;
+  // Base name for the downloaded CSV
+  filename?: string;
+}
+
+const PAGE_SIZE = 25;
+
+type SortState = { column: number; direction: 'asc' | 'desc' } | null;
+
+// Numbers sort numerically and empty cells last, whatever the direction
+function compareCells(a: TableCell, b: TableCell): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+function formatCell(cell: TableCell): string {
+  if (cell === null) return '';
+  if (typeof cell === 'number') return cell.toLocaleString(undefined, { maximumFractionDigits: 6 });
+  return String(cell);
+}
+
+export function DataTable({ data, filename = 'results' }: DataTableProps) {
+  const [filter, setFilter] = useState('');
+  const [sort, setSort] = useState<SortState>(null);
+  const [page, setPage] = useState(0);
+
+  const rows = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    const filtered = needle
+      ? data.rows.filter(row => row.some(cell => formatCell(cell).toLowerCase().includes(needle)))
+      : data.rows;
+    if (!sort) return filtered;
+    const sign = sort.direction === 'asc' ? 1 : -1;
+    return [...filtered].sort((a, b) => {
+      const x = a[sort.column];
+      const y = b[sort.column];
+      if (x === null || y === null) return Number(x === null) - Number(y === null);
+      return sign * compareCells(x, y);
+    });
+  }, [data, filter, sort]);
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = rows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  // Ascending, then descending, then back to the original order
+  const toggleSort = (column: number) => {
+    setSort(prev => {
+      if (prev?.column !== column) return { column, direction: 'asc' };
+      return prev.direction === 'asc' ? { column, direction: 'desc' } : null;
+    });
+    setPage(0);
+  };
+
+  // Downloads what's shown: filtered and sorted, all pages
+  const handleDownload = () => {
+    const csv = toCsv([data.columns, ...rows]);
+    downloadFile(csv, `${slugify(filename, 'results')}.csv`, 'text/csv');
+  };
+
+  return (
+    <div className="data-table">
+      <div className="data-table-toolbar">
+        <input
+          type="text"
+          className="data-table-filter"
+          placeholder="Filter rows..."
+          value={filter}
+          onChange={(e) => {
+            setFilter(e.target.value);
+            setPage(0);
+          }}
+          aria-label="Filter rows"
+        />
+        <span className="data-table-count">
+          {rows.length === data.rows.length
+            ? `${data.rows.length} rows`
+            : `${rows.length} of ${data.rows.length} rows`}
+        </span>
+        <button type="button" className="data-table-btn" onClick={handleDownload}>
+          Download CSV
+        </button>
+      </div>
+
+      <div className="data-table-scroll">
+        <table>
+          <thead>
+            <tr>
+              {data.columns.map((column, index) => (
+                <th
+                  key={index}
+                  aria-sort={sort?.column === index ? (sort.direction === 'asc' ? 'ascending' : 'descending') : undefined}
+                >
+                  <button type="button" onClick={() => toggleSort(index)}>
+                    {column}
+                    <span className="data-table-sort">
+                      {sort?.column === index ? (sort.direction === 'asc' ? '▲' : '▼') : ''}
+                    </span>
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {pageRows.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {row.map((cell, index) => (
+                  <td
+                    key={index}
+                    className={typeof cell === 'number' ? 'numeric' : cell === null ? 'empty' : undefined}
+                  >
+                    {cell === null ? 'NULL' : formatCell(cell)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {pageCount > 1 && (
+        <div className="data-table-pager">
+          <button
+            type="button"
+            className="data-table-btn"
+            onClick={() => setPage(currentPage - 1)}
+            disabled={currentPage === 0}
+          >
+            Previous
+          </button>
+          <span>
+            Page {currentPage + 1} of {pageCount}
+          </span>
+          <button
+            type="button"
+            className="data-table-btn"
+            onClick={() => setPage(currentPage + 1)}
+            disabled={currentPage >= pageCount - 1}
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
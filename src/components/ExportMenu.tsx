@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+import { EXPORT_FORMATS } from '../utils/exporters';
+import type { ExportFormat } from '../utils/exporters';
+
+interface ExportMenuProps {
+  onSelect: (format: ExportFormat) => void;
+  onClose: () => void;
+}
+
+// Small popover listing the export formats; closes on outside click or Escape
+export function ExportMenu({ onSelect, onClose }: ExportMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handlePointerDown = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  return (
+    <div ref={menuRef} className="export-menu" role="menu" onClick={(e) => e.stopPropagation()}>
+      {EXPORT_FORMATS.map(({ format, label }) => (
+        <button
+          key={format}
+          role="menuitem"
+          className="export-menu-item"
+          onClick={() => onSelect(format)}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import type { FeedbackCategory, FeedbackRating } from '../types/api';
+import type { MessageFeedback } from '../services/storage';
+import type { FeedbackInput } from '../services/feedback';
+import { FEEDBACK_CATEGORIES, feedbackCategoryLabel } from '../utils/feedback';
+import './FeedbackControls.css';
+
+interface FeedbackControlsProps {
+  feedback: MessageFeedback | null;
+  onSave: (input: FeedbackInput) => void;
+  onRemove: () => void;
+}
+
+// Thumbs up/down on an answer, with an optional category and note
+export function FeedbackControls({ feedback, onSave, onRemove }: FeedbackControlsProps) {
+  const [editing, setEditing] = useState(false);
+  const [category, setCategory] = useState<FeedbackCategory | null>(null);
+  const [note, setNote] = useState('');
+
+  const openDetails = (current: MessageFeedback | null) => {
+    setCategory(current?.category ?? null);
+    setNote(current?.note ?? '');
+    setEditing(true);
+  };
+
+  const handleRate = (rating: FeedbackRating) => {
+    if (feedback?.rating === rating) {
+      onRemove();
+      setEditing(false);
+      return;
+    }
+    onSave({ rating, category: feedback?.category ?? null, note: feedback?.note ?? '' });
+    // A thumbs down is most useful with a reason
+    if (rating === 'down') {
+      openDetails(feedback);
+    }
+  };
+
+  const handleSaveDetails = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ rating: feedback?.rating ?? 'down', category, note: note.trim() });
+    setEditing(false);
+  };
+
+  return (
+    <div className="feedback-controls">
+      <div className="feedback-buttons">
+        <button
+          type="button"
+          className={`feedback-button${feedback?.rating === 'up' ? ' active' : ''}`}
+          onClick={() => handleRate('up')}
+          aria-pressed={feedback?.rating === 'up'}
+          aria-label="Good answer"
+          title="Good answer"
+        >
+          👍
+        </button>
+        <button
+          type="button"
+          className={`feedback-button${feedback?.rating === 'down' ? ' active' : ''}`}
+          onClick={() => handleRate('down')}
+          aria-pressed={feedback?.rating === 'down'}
+          aria-label="Bad answer"
+          title="Bad answer"
+        >
+          👎
+        </button>
+        {feedback && !editing && (
+          <>
+            {(feedback.category || feedback.note) && (
+              <span className="feedback-summary" title={feedback.note || undefined}>
+                {[feedback.category && feedbackCategoryLabel(feedback.category), feedback.note]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </span>
+            )}
+            <button type="button" className="feedback-details-btn" onClick={() => openDetails(feedback)}>
+              {feedback.category || feedback.note ? 'Edit' : 'Add details'}
+            </button>
+          </>
+        )}
+      </div>
+
+      {editing && feedback && (
+        <form className="feedback-form" onSubmit={handleSaveDetails}>
+          <select
+            value={category ?? ''}
+            onChange={e => setCategory((e.target.value || null) as FeedbackCategory | null)}
+            aria-label="What was wrong"
+          >
+            <option value="">No category</option>
+            {FEEDBACK_CATEGORIES.map(({ category: value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <textarea
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            rows={2}
+            aria-label="Feedback note"
+          />
+          <div className="feedback-form-actions">
+            <button type="button" onClick={() => setEditing(false)}>Cancel</button>
+            <button type="submit" className="primary">Save</button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
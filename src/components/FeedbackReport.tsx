@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback } from 'react';
+import { storage } from '../services/storage';
+import type { MessageFeedback } from '../services/storage';
+import { sendUnpostedFeedback } from '../services/feedback';
+import { FEEDBACK_ENDPOINT } from '../config';
+import { FEEDBACK_CATEGORIES, exportFeedbackJsonl, feedbackCategoryLabel } from '../utils/feedback';
+import { downloadFile } from '../utils/download';
+
+// Answer feedback summary and JSONL export, for evaluating the agent offline
+export function FeedbackReport() {
+  const [feedback, setFeedback] = useState<MessageFeedback[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setFeedback(await storage.getFeedback());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(exportFeedbackJsonl(feedback), `chinook-feedback-${date}.jsonl`, 'application/x-ndjson');
+  };
+
+  const handleSend = async () => {
+    setBusy(true);
+    await sendUnpostedFeedback();
+    await refresh();
+    setBusy(false);
+  };
+
+  const up = feedback.filter(entry => entry.rating === 'up').length;
+  const down = feedback.length - up;
+  const unposted = feedback.filter(entry => !entry.posted).length;
+  const byCategory = FEEDBACK_CATEGORIES
+    .map(({ category, label }) => ({
+      label,
+      count: feedback.filter(entry => entry.category === category).length,
+    }))
+    .filter(({ count }) => count > 0);
+  const recent = [...feedback].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)).slice(0, 10);
+
+  return (
+    <section className="settings-section">
+      <h3>Answer feedback</h3>
+      <p className="settings-hint">
+        Ratings you give answers are kept in this browser
+        {FEEDBACK_ENDPOINT ? ' and sent to the feedback endpoint' : ''}. The export has one JSON
+        object per line with the question, answer and tool calls of each rated answer.
+      </p>
+
+      {feedback.length === 0 ? (
+        <p className="settings-hint">No feedback yet.</p>
+      ) : (
+        <>
+          <p className="feedback-report-totals">
+            👍 {up} · 👎 {down}
+            {byCategory.length > 0 && ` · ${byCategory.map(({ label, count }) => `${label}: ${count}`).join(', ')}`}
+          </p>
+          <ul className="storage-cache-list">
+            {recent.map(entry => (
+              <li key={`${entry.threadId}:${entry.messageKey}`} className="storage-cache-item">
+                <span aria-label={entry.rating === 'up' ? 'Good answer' : 'Bad answer'}>
+                  {entry.rating === 'up' ? '👍' : '👎'}
+                </span>
+                <div className="storage-cache-info">
+                  <span className="storage-cache-title">{entry.question || entry.answer.content}</span>
+                  <span className="storage-cache-meta">
+                    {new Date(entry.updatedAt).toLocaleString()}
+                    {entry.category && ` · ${feedbackCategoryLabel(entry.category)}`}
+                    {entry.note && ` · ${entry.note}`}
+                    {FEEDBACK_ENDPOINT && !entry.posted && ' · not sent'}
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <div className="feedback-report-actions">
+        <button className="settings-button" onClick={handleExport} disabled={feedback.length === 0}>
+          Export JSONL
+        </button>
+        {FEEDBACK_ENDPOINT && unposted > 0 && (
+          <button className="settings-button" onClick={handleSend} disabled={busy}>
+            Send {unposted} unsent
+          </button>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,27 @@
+import './FollowUpSuggestions.css';
+
+interface FollowUpSuggestionsProps {
+  suggestions: string[];
+  onSelect: (question: string) => void;
+  disabled?: boolean;
+}
+
+// Chips under the latest answer that ask a follow-up in one click
+export function FollowUpSuggestions({ suggestions, onSelect, disabled }: FollowUpSuggestionsProps) {
+  if (suggestions.length === 0) return null;
+  return (
+    <div className="follow-up-suggestions" role="group" aria-label="Suggested follow-up questions">
+      {suggestions.map(suggestion => (
+        <button
+          key={suggestion}
+          type="button"
+          className="follow-up-chip"
+          onClick={() => onSelect(suggestion)}
+          disabled={disabled}
+        >
+          {suggestion}
+        </button>
+      ))}
+    </div>
+  );
+}
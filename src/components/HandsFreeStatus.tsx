@@ -0,0 +1,36 @@
+import type { HandsFreePhase } from '../utils/handsFree';
+import './HandsFreeStatus.css';
+
+const PHASE_LABELS: Record<HandsFreePhase, string> = {
+  listening: 'Listening…',
+  thinking: 'Thinking…',
+  speaking: 'Speaking…',
+  paused: 'Paused',
+};
+
+const PHASE_HINTS: Record<HandsFreePhase, string> = {
+  listening: 'Ask a question; it is sent when you pause. Say “stop” to exit.',
+  thinking: 'Waiting for the answer.',
+  speaking: 'Listening resumes when the answer has been read.',
+  paused: 'Come back to this tab to continue.',
+};
+
+interface HandsFreeStatusProps {
+  phase: HandsFreePhase | null;
+  onExit: () => void;
+}
+
+// Status bar above the input while hands-free mode runs its listen → send → speak loop
+export function HandsFreeStatus({ phase, onExit }: HandsFreeStatusProps) {
+  if (!phase) return null;
+  return (
+    <div className={`hands-free-status ${phase}`} role="status" aria-live="polite">
+      <span className="hands-free-indicator" aria-hidden="true" />
+      <span className="hands-free-label">{PHASE_LABELS[phase]}</span>
+      <span className="hands-free-hint">{PHASE_HINTS[phase]}</span>
+      <button type="button" className="hands-free-exit" onClick={onExit}>
+        Exit hands-free
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { isValidElement } from 'react';
+import type { ReactNode } from 'react';
+import ReactMarkdown, { defaultUrlTransform } from 'react-markdown';
+import type { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { CodeHighlight } from './CodeHighlight';
+import { useCopyToClipboard } from '../hooks/useCopyToClipboard';
+import './MarkdownMessage.css';
+
+interface MarkdownMessageProps {
+  content: string;
+}
+
+// Links and images may only point at the web or an email address
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+function urlTransform(url: string): string | null {
+  const sanitized = defaultUrlTransform(url);
+  return sanitized && SAFE_URL.test(sanitized) ? sanitized : null;
+}
+
+function CodeBlock({ code, language }: { code: string; language: string | null }) {
+  const { copied, copy } = useCopyToClipboard();
+  return (
+    <div className="markdown-code-block">
+      <div className="markdown-code-header">
+        <span className="markdown-code-language">{language ?? 'code'}</span>
+        <button type="button" className="markdown-code-copy" onClick={() => copy(code)}>
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre>
+        <CodeHighlight code={code} language={language} />
+      </pre>
+    </div>
+  );
+}
+
+const components: Components = {
+  a: ({ href, children }) =>
+    href ? (
+      <a href={href} target="_blank" rel="noopener noreferrer nofollow">
+        {children}
+      </a>
+    ) : (
+      // Unsafe links keep their text but lose the link
+      <span>{children}</span>
+    ),
+  table: ({ children }) => (
+    <div className="markdown-table-scroll">
+      <table>{children}</table>
+    </div>
+  ),
+  pre: ({ children }) => {
+    const code = isValidElement<{ className?: string; children?: ReactNode }>(children)
+      ? children.props
+      : null;
+    const language = code?.className?.match(/language-([\w+-]+)/)?.[1] ?? null;
+    const text = String(code?.children ?? '').replace(/\n$/, '');
+    return <CodeBlock code={text} language={language} />;
+  },
+};
+
+/**
+ * Assistant message markdown: GitHub-flavored (tables, task lists,
+ * strikethrough), highlighted code blocks with a copy button, and links that
+ * open in a new tab and are limited to http(s) and mailto.
+ */
+export function MarkdownMessage({ content }: MarkdownMessageProps) {
+  return (
+    <ReactMarkdown remarkPlugins={[remarkGfm]} components={components} urlTransform={urlTransform}>
+      {content}
+    </ReactMarkdown>
+  );
+}
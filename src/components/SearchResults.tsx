@@ -0,0 +1,52 @@
+import type { SearchResult } from '../services/searchIndex';
+
+interface SearchResultsProps {
+  results: SearchResult[];
+  searching: boolean;
+  onSelect: (result: SearchResult) => void;
+}
+
+const ROLE_LABELS: Record<SearchResult['role'], string> = {
+  title: 'Title',
+  user: 'You',
+  assistant: 'Assistant',
+  tool: 'Tool',
+  unknown: 'Message',
+};
+
+export function SearchResults({ results, searching, onSelect }: SearchResultsProps) {
+  if (results.length === 0) {
+    return (
+      <div className="empty-state">
+        <p>{searching ? 'Searching...' : 'No matches'}</p>
+        {!searching && <p className="empty-hint">Only conversations cached in this browser are searched</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="search-results">
+      {results.map(result => (
+        <button
+          key={`${result.threadId}:${result.messageKey ?? 'title'}`}
+          className="search-result"
+          onClick={() => onSelect(result)}
+        >
+          <div className="search-result-header">
+            <span className="search-result-thread">
+              {result.threadTitle || 'New Conversation'}
+            </span>
+            <span className={`search-result-role ${result.role}`}>
+              {ROLE_LABELS[result.role]}
+            </span>
+          </div>
+          <div className="search-result-snippet">
+            {result.snippet.map((part, i) =>
+              part.match ? <mark key={i}>{part.text}</mark> : <span key={i}>{part.text}</span>
+            )}
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
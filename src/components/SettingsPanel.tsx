@@ -0,0 +1,44 @@
+import { useEffect } from 'react';
+import { StorageSettings } from './StorageSettings';
+import { FeedbackReport } from './FeedbackReport';
+import { SpeechSettings } from './SpeechSettings';
+import './SettingsPanel.css';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+export function SettingsPanel({ onClose }: SettingsPanelProps) {
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div
+        className="settings-panel"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="settings-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="settings-header">
+          <h2 id="settings-title">Settings</h2>
+          <button className="settings-close" onClick={onClose} aria-label="Close settings">
+            ×
+          </button>
+        </div>
+        <div className="settings-body">
+          <StorageSettings />
+          <FeedbackReport />
+          <SpeechSettings />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useSpeechPlayer } from '../hooks/useSpeechPlayer';
+import { speechPlayer } from '../services/textToSpeech';
+import { saveVoiceSettings } from '../services/voiceSettings';
+import './SpeechMiniPlayer.css';
+
+const RATES = [0.75, 1, 1.25, 1.5, 2];
+
+// Playback bar shown while answers are read aloud
+export function SpeechMiniPlayer() {
+  const { status, itemIndex, itemCount, sentence, sentenceIndex, sentenceCount, rate } = useSpeechPlayer();
+  if (status === 'idle') return null;
+
+  // Progress through the whole queue, one step per sentence
+  const progress = itemCount > 0 && sentenceCount > 0
+    ? (itemIndex + (sentenceIndex + 1) / sentenceCount) / itemCount
+    : 0;
+  const rates = RATES.includes(rate) ? RATES : [...RATES, rate].sort((a, b) => a - b);
+
+  const handleRate = (value: number) => {
+    speechPlayer.setRate(value);
+    // Remembered as the default rate for the next answer
+    saveVoiceSettings({ ttsRate: value });
+  };
+
+  return (
+    <div className="speech-player" role="region" aria-label="Speech playback">
+      <div
+        className="speech-player-progress"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(progress * 100)}
+      >
+        <div className="speech-player-progress-fill" style={{ width: `${progress * 100}%` }} />
+      </div>
+
+      <div className="speech-player-body">
+        <div className="speech-player-info">
+          <span className="speech-player-status">
+            {status === 'loading' ? 'Preparing audio…' : status === 'paused' ? 'Paused' : 'Reading'}
+            {itemCount > 1 && ` · answer ${itemIndex + 1} of ${itemCount}`}
+            {` · sentence ${sentenceIndex + 1} of ${sentenceCount}`}
+          </span>
+          {sentence && <span className="speech-player-sentence">{sentence.display}</span>}
+        </div>
+
+        <div className="speech-player-controls">
+          <button
+            type="button"
+            className="speech-player-button"
+            onClick={() => speechPlayer.skip(-1)}
+            aria-label="Previous sentence"
+            title="Previous sentence"
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+              <polygon points="19 20 9 12 19 4 19 20"/>
+              <line x1="5" y1="19" x2="5" y2="5"/>
+            </svg>
+          </button>
+          {status === 'paused' ? (
+            <button
+              type="button"
+              className="speech-player-button primary"
+              onClick={() => speechPlayer.resume()}
+              aria-label="Resume"
+              title="Resume"
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                <polygon points="6 4 20 12 6 20 6 4"/>
+              </svg>
+            </button>
+          ) : (
+            <button
+              type="button"
+              className="speech-player-button primary"
+              onClick={() => speechPlayer.pause()}
+              aria-label="Pause"
+              title="Pause"
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                <rect x="6" y="4" width="4" height="16" rx="1"/>
+                <rect x="14" y="4" width="4" height="16" rx="1"/>
+              </svg>
+            </button>
+          )}
+          <button
+            type="button"
+            className="speech-player-button"
+            onClick={() => speechPlayer.skip(1)}
+            aria-label="Next sentence"
+            title="Next sentence"
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+              <polygon points="5 4 15 12 5 20 5 4"/>
+              <line x1="19" y1="5" x2="19" y2="19"/>
+            </svg>
+          </button>
+          <select
+            className="speech-player-rate"
+            value={rate}
+            onChange={(e) => handleRate(Number(e.target.value))}
+            aria-label="Playback speed"
+            title="Playback speed"
+          >
+            {rates.map(value => (
+              <option key={value} value={value}>{value}×</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="speech-player-button"
+            onClick={() => speechPlayer.stop()}
+            aria-label="Stop reading"
+            title="Stop reading"
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+              <rect x="7" y="7" width="10" height="10" rx="2" ry="2"/>
+            </svg>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
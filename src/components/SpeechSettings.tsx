@@ -0,0 +1,250 @@
+import { useEffect, useState } from 'react';
+import { useVoiceSettings } from '../hooks/useVoiceSettings';
+import { saveVoiceSettings } from '../services/voiceSettings';
+import type { VoiceSettings } from '../services/voiceSettings';
+import { SPEECH_TO_TEXT_PROVIDERS, createSpeechToTextProvider } from '../services/speechToText';
+import { TEXT_TO_SPEECH_PROVIDERS, createTextToSpeechProvider, speechPlayer } from '../services/textToSpeech';
+import type { TtsVoice } from '../services/textToSpeech';
+
+const SAMPLE_TEXT = 'AC/DC has the most albums in the Chinook catalog.';
+
+interface TextSettingProps {
+  label: string;
+  value: string;
+  placeholder: string;
+  onSave: (value: string) => void;
+}
+
+// Text field saved on blur or Enter, so settings aren't rewritten on every keystroke
+function TextSetting({ label, value, placeholder, onSave }: TextSettingProps) {
+  const [draft, setDraft] = useState(value);
+
+  const save = () => {
+    if (draft.trim() !== value) onSave(draft.trim());
+  };
+
+  return (
+    <label className="speech-field">
+      <span>{label}</span>
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={save}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') save();
+        }}
+        placeholder={placeholder}
+        spellCheck={false}
+      />
+    </label>
+  );
+}
+
+function VoiceInputSettings({ settings }: { settings: VoiceSettings }) {
+  return (
+    <section className="settings-section">
+      <h3>Voice input</h3>
+      <p className="settings-hint">
+        How the mic button and hands-free mode turn speech into text. Press V to
+        start and P to stop when no text field is focused.
+      </p>
+
+      <div className="speech-provider-list" role="radiogroup" aria-label="Speech-to-text provider">
+        {SPEECH_TO_TEXT_PROVIDERS.map(provider => {
+          const supported = createSpeechToTextProvider({ ...settings, sttProvider: provider.id }).isSupported();
+          return (
+            <label key={provider.id} className="speech-provider">
+              <input
+                type="radio"
+                name="stt-provider"
+                value={provider.id}
+                checked={settings.sttProvider === provider.id}
+                onChange={() => saveVoiceSettings({ sttProvider: provider.id })}
+              />
+              <span className="speech-provider-info">
+                <span className="speech-provider-label">{provider.label}</span>
+                <span className="speech-provider-description">
+                  {provider.description}
+                  {!supported && (provider.id === 'recorder' && !settings.transcriptionEndpoint
+                    ? ' Set an endpoint below to use it.'
+                    : ' Not available in this browser.')}
+                </span>
+              </span>
+            </label>
+          );
+        })}
+      </div>
+
+      <TextSetting
+        label="Transcription endpoint"
+        value={settings.transcriptionEndpoint}
+        placeholder="http://localhost:9000/v1/audio/transcriptions"
+        onSave={(transcriptionEndpoint) => saveVoiceSettings({ transcriptionEndpoint })}
+      />
+
+      <div className="speech-options">
+        <label className="speech-option">
+          <span>Hands-free: send after a {(settings.handsFreeSilenceMs / 1000).toFixed(1)} s pause</span>
+          <input
+            type="range"
+            min={0.5}
+            max={5}
+            step={0.5}
+            value={settings.handsFreeSilenceMs / 1000}
+            onChange={(e) => saveVoiceSettings({ handsFreeSilenceMs: Number(e.target.value) * 1000 })}
+          />
+        </label>
+      </div>
+    </section>
+  );
+}
+
+function VoiceOutputSettings({ settings }: { settings: VoiceSettings }) {
+  const [voices, setVoices] = useState<TtsVoice[]>([]);
+  const [testing, setTesting] = useState(false);
+  const selected = TEXT_TO_SPEECH_PROVIDERS.find(provider => provider.id === settings.ttsProvider);
+
+  useEffect(() => {
+    let cancelled = false;
+    createTextToSpeechProvider(settings).getVoices().then(list => {
+      if (!cancelled) setVoices(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [settings]);
+
+  // Don't keep talking after the panel closes
+  useEffect(() => () => speechPlayer.stop(), []);
+
+  const handleTest = async () => {
+    if (testing) {
+      speechPlayer.stop();
+      setTesting(false);
+      return;
+    }
+    setTesting(true);
+    try {
+      await speechPlayer.speak([{ key: 'sample', text: SAMPLE_TEXT }], settings, {
+        onEnd: () => setTesting(false),
+        onError: () => setTesting(false),
+      });
+    } catch {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <section className="settings-section">
+      <h3>Voice output</h3>
+      <p className="settings-hint">
+        How answers are read aloud. When the chosen provider is unavailable,
+        the browser&apos;s own speech is used instead.
+      </p>
+
+      <div className="speech-provider-list" role="radiogroup" aria-label="Text-to-speech provider">
+        {TEXT_TO_SPEECH_PROVIDERS.map(provider => {
+          const supported = createTextToSpeechProvider({ ...settings, ttsProvider: provider.id }).isSupported();
+          return (
+            <label key={provider.id} className="speech-provider">
+              <input
+                type="radio"
+                name="tts-provider"
+                value={provider.id}
+                checked={settings.ttsProvider === provider.id}
+                // Voice ids differ between providers
+                onChange={() => saveVoiceSettings({ ttsProvider: provider.id, ttsVoice: '' })}
+              />
+              <span className="speech-provider-info">
+                <span className="speech-provider-label">{provider.label}</span>
+                <span className="speech-provider-description">
+                  {provider.description}
+                  {!supported && (provider.id === 'http' && !settings.ttsEndpoint
+                    ? ' Set an endpoint below to use it.'
+                    : ' Not available right now.')}
+                </span>
+              </span>
+            </label>
+          );
+        })}
+      </div>
+
+      {settings.ttsProvider === 'http' && (
+        <TextSetting
+          label="Speech endpoint"
+          value={settings.ttsEndpoint}
+          placeholder="http://localhost:8880/v1/audio/speech"
+          onSave={(ttsEndpoint) => saveVoiceSettings({ ttsEndpoint })}
+        />
+      )}
+
+      <div className="speech-options">
+        {voices.length > 0 ? (
+          <label className="speech-option">
+            <span>Voice</span>
+            <select
+              value={settings.ttsVoice}
+              onChange={(e) => saveVoiceSettings({ ttsVoice: e.target.value })}
+            >
+              <option value="">Default</option>
+              {voices.map(voice => (
+                <option key={voice.id} value={voice.id}>{voice.label}</option>
+              ))}
+            </select>
+          </label>
+        ) : (
+          <TextSetting
+            key={settings.ttsProvider}
+            label="Voice"
+            value={settings.ttsVoice}
+            placeholder="Server default"
+            onSave={(ttsVoice) => saveVoiceSettings({ ttsVoice })}
+          />
+        )}
+
+        <label className="speech-option">
+          <span>Rate {settings.ttsRate.toFixed(1)}×</span>
+          <input
+            type="range"
+            min={0.5}
+            max={2}
+            step={0.1}
+            value={settings.ttsRate}
+            onChange={(e) => saveVoiceSettings({ ttsRate: Number(e.target.value) })}
+          />
+        </label>
+
+        <label className="speech-option">
+          <span>Pitch {settings.ttsPitch.toFixed(1)}</span>
+          <input
+            type="range"
+            min={0}
+            max={2}
+            step={0.1}
+            value={settings.ttsPitch}
+            onChange={(e) => saveVoiceSettings({ ttsPitch: Number(e.target.value) })}
+            disabled={!selected?.supportsPitch}
+            title={selected?.supportsPitch ? undefined : 'Only browser speech can change the pitch'}
+          />
+        </label>
+      </div>
+
+      <button className="settings-button" onClick={handleTest}>
+        {testing ? 'Stop' : 'Test voice'}
+      </button>
+    </section>
+  );
+}
+
+// Speech-to-text and text-to-speech providers and their options
+export function SpeechSettings() {
+  const settings = useVoiceSettings();
+
+  return (
+    <>
+      <VoiceInputSettings settings={settings} />
+      <VoiceOutputSettings settings={settings} />
+    </>
+  );
+}
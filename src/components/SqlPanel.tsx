@@ -0,0 +1,102 @@
+import { useState, useMemo } from 'react';
+import { formatSql } from '../utils/sql';
+import type { SqlQuery } from '../utils/sql';
+import { ToolOutput } from './ToolOutput';
+import { CodeHighlight } from './CodeHighlight';
+import { useCopyToClipboard } from '../hooks/useCopyToClipboard';
+import './SqlPanel.css';
+
+interface SqlPanelProps {
+  queries: SqlQuery[];
+  // Send the (possibly edited) query back to the agent in this thread
+  onAskAgain: (sql: string) => void;
+  // True while a reply is in progress
+  disabled?: boolean;
+}
+
+function SqlQueryView({ query, onAskAgain, disabled }: { query: SqlQuery } & Omit<SqlPanelProps, 'queries'>) {
+  const formatted = useMemo(() => formatSql(query.sql), [query.sql]);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(formatted);
+  const { copied, copy } = useCopyToClipboard();
+
+  const sql = editing ? draft : formatted;
+
+  const handleAskAgain = () => {
+    if (!sql.trim()) return;
+    onAskAgain(sql);
+    setEditing(false);
+  };
+
+  return (
+    <div className="sql-query">
+      <div className="sql-query-toolbar">
+        <span className="sql-query-tool">{query.toolName}</span>
+        <div className="sql-query-actions">
+          <button type="button" className="sql-action-btn" onClick={() => copy(sql)}>
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+          <button
+            type="button"
+            className="sql-action-btn"
+            onClick={() => {
+              setDraft(formatted);
+              setEditing(!editing);
+            }}
+          >
+            {editing ? 'Cancel edit' : 'Edit'}
+          </button>
+          <button
+            type="button"
+            className="sql-action-btn primary"
+            onClick={handleAskAgain}
+            disabled={disabled || !sql.trim()}
+            title="Send this query back to the agent in this conversation"
+          >
+            Ask again with this SQL
+          </button>
+        </div>
+      </div>
+      {editing ? (
+        <textarea
+          className="sql-editor"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={Math.min(16, draft.split('\n').length + 1)}
+          spellCheck={false}
+          aria-label="Edit SQL query"
+        />
+      ) : (
+        <pre className="sql-block">
+          <CodeHighlight code={formatted} language="sql" />
+        </pre>
+      )}
+      {query.output !== null && (
+        <div className="sql-result">
+          <ToolOutput output={query.output} sql={query.sql} filename={query.toolName} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The SQL an assistant message ran, formatted and highlighted, with copy,
+ * edit and "ask again" actions.
+ */
+export function SqlPanel({ queries, onAskAgain, disabled }: SqlPanelProps) {
+  if (queries.length === 0) return null;
+  return (
+    <details className="sql-panel" open>
+      <summary>SQL{queries.length > 1 ? ` (${queries.length} queries)` : ''}</summary>
+      {queries.map(query => (
+        <SqlQueryView
+          key={query.toolCallId}
+          query={query}
+          onAskAgain={onAskAgain}
+          disabled={disabled}
+        />
+      ))}
+    </details>
+  );
+}
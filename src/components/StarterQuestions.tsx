@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import { useStarterQuestions } from '../hooks/useStarterQuestions';
+import './StarterQuestions.css';
+
+interface StarterQuestionsProps {
+  // Put the question in the input to edit before sending
+  onFill: (question: string) => void;
+  onSend: (question: string) => void;
+  disabled?: boolean;
+}
+
+const RECENT_ID = 'recent';
+
+const ICONS: Record<string, ReactNode> = {
+  query: (
+    <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <circle cx="12" cy="12" r="10"/>
+      <path d="M12 6v6l4 2"/>
+    </svg>
+  ),
+  sales: (
+    <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M3 3h7v7H3z"/>
+      <path d="M14 3h7v7h-7z"/>
+      <path d="M14 14h7v7h-7z"/>
+      <path d="M3 14h7v7H3z"/>
+    </svg>
+  ),
+  insights: (
+    <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/>
+      <path d="M14 2v6h6"/>
+      <path d="M16 13H8"/>
+      <path d="M16 17H8"/>
+      <path d="M10 9H8"/>
+    </svg>
+  ),
+  [RECENT_ID]: (
+    <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M3 12a9 9 0 1 0 3-6.7L3 8"/>
+      <path d="M3 3v5h5"/>
+      <path d="M12 7v5l3 3"/>
+    </svg>
+  ),
+};
+
+/**
+ * Welcome-screen cards; each opens its example questions (from
+ * public/starter-questions.json), plus a card with the user's recent questions.
+ */
+export function StarterQuestions({ onFill, onSend, disabled }: StarterQuestionsProps) {
+  const { categories, recent } = useStarterQuestions();
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const cards = recent.length > 0
+    ? [
+        ...categories,
+        {
+          id: RECENT_ID,
+          title: 'Recently asked',
+          description: 'Pick up a question from one of your conversations',
+          questions: recent,
+        },
+      ]
+    : categories;
+  const open = cards.find(card => card.id === openId);
+
+  return (
+    <>
+      <div className="feature-cards">
+        {cards.map(card => (
+          <button
+            key={card.id}
+            type="button"
+            className={`feature-card${card.id === openId ? ' open' : ''}`}
+            onClick={() => setOpenId(card.id === openId ? null : card.id)}
+            aria-expanded={card.id === openId}
+            aria-controls="starter-questions"
+          >
+            <div className="feature-icon">{ICONS[card.id] ?? ICONS.insights}</div>
+            <h3 className="feature-title">{card.title}</h3>
+            <p className="feature-description">{card.description}</p>
+          </button>
+        ))}
+      </div>
+
+      {open && (
+        <div className="starter-questions" id="starter-questions">
+          {open.questions.length === 0 ? (
+            <p className="starter-questions-empty">No example questions configured.</p>
+          ) : (
+            <ul>
+              {open.questions.map(question => (
+                <li key={question} className="starter-question">
+                  <button
+                    type="button"
+                    className="starter-question-text"
+                    onClick={() => onFill(question)}
+                    title="Edit before sending"
+                  >
+                    {question}
+                  </button>
+                  <button
+                    type="button"
+                    className="starter-question-send"
+                    onClick={() => onSend(question)}
+                    disabled={disabled}
+                    aria-label={`Ask: ${question}`}
+                    title="Ask now"
+                  >
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+                      <line x1="22" y1="2" x2="11" y2="13"></line>
+                      <polygon points="22 2 15 22 11 13 2 9 22 2"></polygon>
+                    </svg>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
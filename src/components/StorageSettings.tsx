@@ -0,0 +1,134 @@
+import { useState, useEffect, useCallback } from 'react';
+import { storage } from '../services/storage';
+import type { ThreadCacheStats } from '../services/storage';
+import { updateThreadMetadata } from '../services/threads';
+import { formatBytes } from '../utils/format';
+
+interface StorageInfo {
+  used: number;
+  available: number;
+  percentage: number;
+}
+
+const BACKEND_LABELS = {
+  indexeddb: 'IndexedDB',
+  localstorage: 'localStorage',
+} as const;
+
+export function StorageSettings() {
+  const [info, setInfo] = useState<StorageInfo | null>(null);
+  const [backendName, setBackendName] = useState<keyof typeof BACKEND_LABELS | null>(null);
+  const [caches, setCaches] = useState<ThreadCacheStats[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    const [storageInfo, name, stats] = await Promise.all([
+      storage.getStorageInfo(),
+      storage.getBackendName(),
+      storage.getThreadCacheStats(),
+    ]);
+    setInfo(storageInfo);
+    setBackendName(name);
+    setCaches(stats);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    // Eviction can happen while the panel is open
+    window.addEventListener('storageEvicted', refresh);
+    return () => window.removeEventListener('storageEvicted', refresh);
+  }, [refresh]);
+
+  const handleClearCache = async (threadId: string) => {
+    setBusy(true);
+    await storage.removeMessages(threadId);
+    await refresh();
+    setBusy(false);
+  };
+
+  const handleTogglePin = async (cache: ThreadCacheStats) => {
+    setBusy(true);
+    await updateThreadMetadata(cache.threadId, { pinned: !cache.pinned });
+    await refresh();
+    setBusy(false);
+  };
+
+  const handleClearAll = async () => {
+    if (!confirm('Clear all cached conversations and queued messages from this browser?')) {
+      return;
+    }
+    setBusy(true);
+    await storage.clearAll();
+    await refresh();
+    setBusy(false);
+    // The sidebar re-fetches the thread list from the server
+    window.dispatchEvent(new Event('threadUpdated'));
+  };
+
+  const percentage = Math.min(100, info?.percentage ?? 0);
+
+  return (
+    <section className="settings-section">
+      <h3>Storage</h3>
+      <p className="settings-hint">
+        Conversations are cached in {backendName ? BACKEND_LABELS[backendName] : 'no storage (unavailable)'}.
+        When the cache gets close to the browser's quota, messages of the least recently opened
+        conversations are removed. Pinned conversations and unsent messages are always kept.
+      </p>
+
+      {info && (
+        <div className="storage-usage">
+          <div className="storage-usage-bar">
+            <div
+              className={`storage-usage-fill ${percentage >= 80 ? 'high' : ''}`}
+              style={{ width: `${percentage}%` }}
+            />
+          </div>
+          <span className="storage-usage-text">
+            {formatBytes(info.used)} used of {formatBytes(info.used + info.available)} ({percentage.toFixed(1)}%)
+          </span>
+        </div>
+      )}
+
+      {caches.length === 0 ? (
+        <p className="settings-hint">No cached conversations.</p>
+      ) : (
+        <ul className="storage-cache-list">
+          {caches.map(cache => (
+            <li key={cache.threadId} className="storage-cache-item">
+              <div className="storage-cache-info">
+                <span className="storage-cache-title">
+                  {cache.pinned && <span aria-label="Pinned">📌 </span>}
+                  {cache.title || 'New Conversation'}
+                </span>
+                <span className="storage-cache-meta">
+                  {formatBytes(cache.bytes)} · {cache.messageCount} messages
+                  {cache.hasPending && ' · unsent messages'}
+                </span>
+              </div>
+              <button
+                className="settings-button"
+                onClick={() => handleTogglePin(cache)}
+                disabled={busy}
+              >
+                {cache.pinned ? 'Unpin' : 'Pin'}
+              </button>
+              <button
+                className="settings-button"
+                onClick={() => handleClearCache(cache.threadId)}
+                disabled={busy || cache.hasPending}
+                title={cache.hasPending ? 'Has messages waiting to be sent' : undefined}
+              >
+                Clear cache
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button className="settings-button danger" onClick={handleClearAll} disabled={busy}>
+        Clear all
+      </button>
+    </section>
+  );
+}
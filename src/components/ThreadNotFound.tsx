@@ -0,0 +1,22 @@
+import './ThreadNotFound.css';
+
+interface ThreadNotFoundProps {
+  threadId: string;
+  onNavigateToHome: () => void;
+}
+
+export function ThreadNotFound({ threadId, onNavigateToHome }: ThreadNotFoundProps) {
+  return (
+    <div className="thread-not-found">
+      <div className="thread-not-found-content">
+        <h1>Conversation not found</h1>
+        <p>
+          The conversation <code>{threadId}</code> doesn't exist or has been deleted.
+        </p>
+        <button className="thread-not-found-btn" onClick={onNavigateToHome}>
+          Start a new conversation
+        </button>
+      </div>
+    </div>
+  );
+}
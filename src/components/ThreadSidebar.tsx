@@ -1,15 +1,31 @@
-import { useState, useEffect } from 'react';
-import type { ThreadInfo } from '../types/api';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { ThreadInfo, ThreadUpdateRequest } from '../types/api';
 import { api, ApiError } from '../services/api';
-import { storage } from '../services/storage';
+import { storage, isLocalThreadId } from '../services/storage';
+import { updateThreadMetadata, loadThreadForExport, importConversations } from '../services/threads';
+import { searchIndex } from '../services/searchIndex';
+import type { SearchResult } from '../services/searchIndex';
+import { SearchResults } from './SearchResults';
+import { ExportMenu } from './ExportMenu';
+import { buildExport, parseConversationExport } from '../utils/exporters';
+import type { ExportFormat, ExportedThread } from '../utils/exporters';
+import { downloadFile, slugify } from '../utils/download';
 import { useTheme } from '../contexts/ThemeContext';
+import type { VoiceCommandDetail } from '../utils/voiceCommands';
+import { THREAD_PAGE_SIZE } from '../config';
 import './ThreadSidebar.css';
 
+// Wait for a pause in typing before querying the index
+const SEARCH_DEBOUNCE_MS = 150;
+
 interface ThreadSidebarProps {
   currentThreadId: string | null;
   onThreadSelect: (threadId: string) => void;
   onThreadDeleted: (threadId: string) => void;
   onNavigateToHome: () => void;
+  onOpenSettings: () => void;
+  // Open a thread scrolled to a message (messageKey is null for title matches)
+  onSearchResultSelect: (threadId: string, messageKey: string | null) => void;
 }
 
 export function ThreadSidebar({
@@ -17,16 +33,64 @@ export function ThreadSidebar({
   onThreadSelect,
   onThreadDeleted,
   onNavigateToHome,
+  onOpenSettings,
+  onSearchResultSelect,
 }: ThreadSidebarProps) {
   const [threads, setThreads] = useState<ThreadInfo[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  // Server paging: offset of the next page to fetch, and the server's total
+  const [nextOffset, setNextOffset] = useState(0);
+  const [total, setTotal] = useState<number | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const hasMore = total !== null && nextOffset < total;
   const { theme, toggleTheme } = useTheme();
+  const isSearching = query.trim().length > 0;
+  const [view, setView] = useState<'active' | 'archived'>('active');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  // Thread whose export menu is open, or 'all' for the bulk export menu
+  const [exportMenuFor, setExportMenuFor] = useState<string | null>(null);
+  const [transferring, setTransferring] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const closeExportMenu = useCallback(() => setExportMenuFor(null), []);
+
+  // Pinned threads first; archived ones only in the Archived view
+  const visibleThreads = threads
+    .filter(t => Boolean(t.archived) === (view === 'archived'))
+    .sort((a, b) => Number(Boolean(b.pinned)) - Number(Boolean(a.pinned)));
+  const archivedCount = threads.filter(t => t.archived).length;
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      const found = await searchIndex.search(trimmed);
+      if (!cancelled) {
+        setResults(found);
+        setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
 
   const loadThreads = async (useCache = true) => {
     // Load from cache first for instant display
     if (useCache) {
-      const cachedThreads = storage.getThreads();
+      const cachedThreads = await storage.getThreads();
       if (cachedThreads.length > 0) {
         setThreads(cachedThreads);
         setLoading(false);
@@ -40,22 +104,25 @@ export function ThreadSidebar({
     setError(null);
     
     try {
-      const data = await api.listThreads(50, 0);
-      setThreads(data.threads);
-      // Save to localStorage
-      storage.saveThreads(data.threads);
+      const data = await api.listThreads(THREAD_PAGE_SIZE, 0);
+      // Merge into the cache, keeping offline threads and pages loaded further down
+      const merged = await storage.mergeThreadPage(data.threads, data.offset, data.total);
+      setThreads(merged);
+      setTotal(data.total);
+      // A refresh of the first page doesn't forget pages already loaded below it
+      setNextOffset(prev => Math.max(prev, data.offset + data.threads.length));
     } catch (err) {
       if (err instanceof ApiError) {
         setError(err.detail);
         // If API fails but we have cached data, keep showing it
-        const cachedThreads = storage.getThreads();
+        const cachedThreads = await storage.getThreads();
         if (cachedThreads.length > 0 && threads.length === 0) {
           setThreads(cachedThreads);
         }
       } else {
         setError('Failed to load threads');
         // Fallback to cache if available
-        const cachedThreads = storage.getThreads();
+        const cachedThreads = await storage.getThreads();
         if (cachedThreads.length > 0 && threads.length === 0) {
           setThreads(cachedThreads);
         }
@@ -73,9 +140,9 @@ export function ThreadSidebar({
       loadThreads(false); // Force API sync
     };
     
-    const handleThreadUpdated = () => {
+    const handleThreadUpdated = async () => {
       // Reload threads from cache to get updated titles
-      const cachedThreads = storage.getThreads();
+      const cachedThreads = await storage.getThreads();
       if (cachedThreads.length > 0) {
         setThreads(cachedThreads);
       }
@@ -91,18 +158,57 @@ export function ThreadSidebar({
     };
   }, []);
 
+  const loadMoreThreads = async () => {
+    if (loadingMore || !hasMore) return;
+    setLoadingMore(true);
+    try {
+      const data = await api.listThreads(THREAD_PAGE_SIZE, nextOffset);
+      const merged = await storage.mergeThreadPage(data.threads, data.offset, data.total);
+      setThreads(merged);
+      setTotal(data.total);
+      setNextOffset(data.offset + data.threads.length);
+    } catch (err) {
+      console.error('Failed to load more threads:', err);
+      // Stop auto-loading until the next full refresh
+      setTotal(null);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Fetch the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || loadingMore) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadMoreThreads();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  });
+
   const handleDeleteThread = async (threadId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (!confirm('Are you sure you want to delete this conversation?')) {
       return;
     }
+    await deleteThread(threadId);
+  };
 
+  const deleteThread = async (threadId: string) => {
     // Optimistically remove from UI
     const updatedThreads = threads.filter(t => t.thread_id !== threadId);
     setThreads(updatedThreads);
-    storage.removeThread(threadId);
+    await storage.removeThread(threadId);
     onThreadDeleted(threadId);
 
+    // Offline-only threads were never created on the server
+    if (isLocalThreadId(threadId)) {
+      return;
+    }
+
     // Then sync with API
     try {
       await api.deleteThread(threadId);
@@ -118,6 +224,98 @@ export function ThreadSidebar({
     }
   };
 
+  // "Delete this conversation", already confirmed by voice
+  useEffect(() => {
+    const handleVoiceCommand = (e: Event) => {
+      const { command } = (e as CustomEvent<VoiceCommandDetail>).detail;
+      if (command.type === 'deleteConversation' && currentThreadId) {
+        deleteThread(currentThreadId);
+      }
+    };
+    window.addEventListener('voiceCommand', handleVoiceCommand);
+    return () => window.removeEventListener('voiceCommand', handleVoiceCommand);
+  });
+
+  // Apply a rename/pin/archive locally right away, then persist and sync it
+  const applyThreadChanges = (threadId: string, changes: ThreadUpdateRequest) => {
+    setThreads(prev => prev.map(t => (t.thread_id === threadId ? { ...t, ...changes } : t)));
+    updateThreadMetadata(threadId, changes);
+  };
+
+  const handleTogglePin = (thread: ThreadInfo, e: React.MouseEvent) => {
+    e.stopPropagation();
+    applyThreadChanges(thread.thread_id, { pinned: !thread.pinned });
+  };
+
+  const handleToggleArchive = (thread: ThreadInfo, e: React.MouseEvent) => {
+    e.stopPropagation();
+    applyThreadChanges(thread.thread_id, { archived: !thread.archived });
+  };
+
+  const startRename = (thread: ThreadInfo, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setRenamingId(thread.thread_id);
+    setRenameValue(thread.title || '');
+  };
+
+  const commitRename = () => {
+    if (!renamingId) return;
+    const thread = threads.find(t => t.thread_id === renamingId);
+    const title = renameValue.trim();
+    setRenamingId(null);
+    if (!thread || !title || title === thread.title) return;
+    applyThreadChanges(thread.thread_id, { title, user_title: true });
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    const target = exportMenuFor;
+    setExportMenuFor(null);
+    if (!target) return;
+    // Bulk export covers the conversations in the current tab
+    const threadIds = target === 'all' ? visibleThreads.map(t => t.thread_id) : [target];
+    if (threadIds.length === 0) return;
+
+    setTransferring(true);
+    try {
+      const exported: ExportedThread[] = [];
+      for (const threadId of threadIds) {
+        const entry = await loadThreadForExport(threadId);
+        if (entry) exported.push(entry);
+      }
+      const file = await buildExport(format, exported);
+      const date = new Date().toISOString().slice(0, 10);
+      const name = target === 'all'
+        ? 'conversations'
+        : slugify(exported[0]?.thread.title || '', 'conversation');
+      downloadFile(file.content, `chinook-${name}-${date}.${file.extension}`, file.mimeType);
+    } catch (err) {
+      console.error('Export failed:', err);
+      alert('Failed to export conversations');
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = '';
+    if (!file) return;
+
+    setTransferring(true);
+    try {
+      const threadsToImport = parseConversationExport(await file.text());
+      const { imported, skipped } = await importConversations(threadsToImport);
+      const parts = [`Imported ${imported} conversation${imported === 1 ? '' : 's'}`];
+      if (skipped > 0) parts.push(`${skipped} already in this browser were skipped`);
+      alert(parts.join('; '));
+    } catch (err) {
+      alert(`Failed to import: ${err instanceof Error ? err.message : 'unknown error'}`);
+    } finally {
+      setTransferring(false);
+    }
+  };
+
   const formatDate = (dateString: string | null) => {
     if (!dateString) return 'Unknown';
     const date = new Date(dateString);
@@ -141,6 +339,12 @@ export function ThreadSidebar({
           <img src="/ai-icon.png" alt="AI Assistant" className="logo-icon" />
           <h2>Conversations</h2>
         </div>
+        <button className="theme-toggle-btn" onClick={onOpenSettings} aria-label="Open settings">
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="12" cy="12" r="3"></circle>
+            <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 1 1-4 0v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06A1.65 1.65 0 0 0 4.68 15a1.65 1.65 0 0 0-1.51-1H3a2 2 0 1 1 0-4h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06A1.65 1.65 0 0 0 9 4.68a1.65 1.65 0 0 0 1-1.51V3a2 2 0 1 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06A1.65 1.65 0 0 0 19.4 9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 1 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z"></path>
+          </svg>
+        </button>
         <button className="theme-toggle-btn" onClick={toggleTheme} aria-label="Toggle theme">
           {theme === 'light' ? (
             <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -162,54 +366,212 @@ export function ThreadSidebar({
         </button>
       </div>
 
-      {loading && (
+      <div className="sidebar-search">
+        <input
+          type="text"
+          className="sidebar-search-input"
+          placeholder="Search conversations..."
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setQuery('');
+          }}
+          aria-label="Search conversations"
+        />
+        {query && (
+          <button
+            className="sidebar-search-clear"
+            onClick={() => setQuery('')}
+            aria-label="Clear search"
+          >
+            ×
+          </button>
+        )}
+      </div>
+
+      {isSearching && (
+        <SearchResults
+          results={results}
+          searching={searching}
+          onSelect={(result) => onSearchResultSelect(result.threadId, result.messageKey)}
+        />
+      )}
+
+      {!isSearching && (
+        <div className="sidebar-tabs" role="tablist">
+          <button
+            role="tab"
+            aria-selected={view === 'active'}
+            className={`sidebar-tab ${view === 'active' ? 'active' : ''}`}
+            onClick={() => setView('active')}
+          >
+            Conversations
+          </button>
+          <button
+            role="tab"
+            aria-selected={view === 'archived'}
+            className={`sidebar-tab ${view === 'archived' ? 'active' : ''}`}
+            onClick={() => setView('archived')}
+          >
+            Archived{archivedCount > 0 ? ` (${archivedCount})` : ''}
+          </button>
+        </div>
+      )}
+
+      {!isSearching && loading && (
         <div className="sidebar-loading">
           <div className="spinner"></div>
           <span>Loading conversations...</span>
         </div>
       )}
 
-      {error && (
+      {!isSearching && error && (
         <div className="sidebar-error">
           <p>{error}</p>
           <button onClick={loadThreads}>Retry</button>
         </div>
       )}
 
-      {!loading && !error && (
+      {!isSearching && !loading && !error && (
         <div className="threads-list">
-          {threads.length === 0 ? (
-            <div className="empty-state">
-              <p>No conversations yet</p>
-              <p className="empty-hint">Start a new conversation to begin</p>
-            </div>
+          {visibleThreads.length === 0 ? (
+            view === 'archived' ? (
+              <div className="empty-state">
+                <p>No archived conversations</p>
+              </div>
+            ) : (
+              <div className="empty-state">
+                <p>No conversations yet</p>
+                <p className="empty-hint">Start a new conversation to begin</p>
+              </div>
+            )
           ) : (
-            threads.map(thread => (
+            visibleThreads.map(thread => (
               <div
                 key={thread.thread_id}
                 className={`thread-item ${currentThreadId === thread.thread_id ? 'active' : ''}`}
                 onClick={() => onThreadSelect(thread.thread_id)}
               >
                 <div className="thread-content">
-                  <h3 className="thread-title">
-                    {thread.title || 'New Conversation'}
-                  </h3>
+                  {renamingId === thread.thread_id ? (
+                    <input
+                      className="thread-rename-input"
+                      value={renameValue}
+                      autoFocus
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onClick={(e) => e.stopPropagation()}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      aria-label="Conversation title"
+                    />
+                  ) : (
+                    <h3
+                      className="thread-title"
+                      onDoubleClick={(e) => startRename(thread, e)}
+                    >
+                      {thread.title || 'New Conversation'}
+                    </h3>
+                  )}
                   <div className="thread-meta">
                     <span className="thread-date">
                       {formatDate(thread.last_activity)}
                     </span>
                   </div>
                 </div>
-                <button
-                  className="thread-delete-btn"
-                  onClick={(e) => handleDeleteThread(thread.thread_id, e)}
-                  aria-label="Delete conversation"
-                >
-                  🗑️
-                </button>
+                <div className="thread-actions">
+                  <button
+                    className={`thread-action-btn secondary ${exportMenuFor === thread.thread_id ? 'on' : ''}`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setExportMenuFor(thread.thread_id);
+                    }}
+                    aria-label="Export conversation"
+                    aria-haspopup="menu"
+                    title="Export"
+                    disabled={transferring}
+                  >
+                    ⬇️
+                  </button>
+                  {exportMenuFor === thread.thread_id && (
+                    <ExportMenu onSelect={handleExport} onClose={closeExportMenu} />
+                  )}
+                  <button
+                    className="thread-action-btn secondary"
+                    onClick={(e) => startRename(thread, e)}
+                    aria-label="Rename conversation"
+                    title="Rename"
+                  >
+                    ✏️
+                  </button>
+                  <button
+                    className={`thread-action-btn secondary ${thread.pinned ? 'on' : ''}`}
+                    onClick={(e) => handleTogglePin(thread, e)}
+                    aria-label={thread.pinned ? 'Unpin conversation' : 'Pin conversation'}
+                    aria-pressed={Boolean(thread.pinned)}
+                    title={thread.pinned ? 'Unpin' : 'Pin'}
+                  >
+                    📌
+                  </button>
+                  <button
+                    className="thread-action-btn secondary"
+                    onClick={(e) => handleToggleArchive(thread, e)}
+                    aria-label={thread.archived ? 'Unarchive conversation' : 'Archive conversation'}
+                    title={thread.archived ? 'Unarchive' : 'Archive'}
+                  >
+                    {thread.archived ? '📤' : '🗄️'}
+                  </button>
+                  <button
+                    className="thread-action-btn thread-delete-btn"
+                    onClick={(e) => handleDeleteThread(thread.thread_id, e)}
+                    aria-label="Delete conversation"
+                  >
+                    🗑️
+                  </button>
+                </div>
               </div>
             ))
           )}
+          {hasMore && (
+            <div ref={loadMoreRef} className="threads-load-more">
+              {loadingMore && <div className="spinner"></div>}
+            </div>
+          )}
+        </div>
+      )}
+
+      {!isSearching && (
+        <div className="sidebar-footer">
+          <div className="sidebar-footer-export">
+            <button
+              className="sidebar-footer-btn"
+              onClick={() => setExportMenuFor('all')}
+              disabled={transferring || visibleThreads.length === 0}
+              aria-haspopup="menu"
+            >
+              Export all
+            </button>
+            {exportMenuFor === 'all' && (
+              <ExportMenu onSelect={handleExport} onClose={closeExportMenu} />
+            )}
+          </div>
+          <button
+            className="sidebar-footer-btn"
+            onClick={() => importInputRef.current?.click()}
+            disabled={transferring}
+          >
+            Import
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImportFile}
+            hidden
+          />
+          {transferring && <div className="spinner small"></div>}
         </div>
       )}
     </div>
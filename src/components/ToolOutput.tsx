@@ -0,0 +1,24 @@
+import { useMemo } from 'react';
+import { parseToolOutput, withColumnNames } from '../utils/toolOutput';
+import { selectColumnNames } from '../utils/sql';
+import { DataTable } from './DataTable';
+
+interface ToolOutputProps {
+  output: string | null;
+  // Query that produced the output; its SELECT list names positional rows
+  sql?: string | null;
+  filename?: string;
+}
+
+// Tool output as a table when it parses as rows, otherwise the raw text
+export function ToolOutput({ output, sql = null, filename }: ToolOutputProps) {
+  const data = useMemo(() => {
+    const parsed = parseToolOutput(output);
+    return parsed && withColumnNames(parsed, sql ? selectColumnNames(sql) : null);
+  }, [output, sql]);
+
+  if (!data) {
+    return <pre>{output || '(No output)'}</pre>;
+  }
+  return <DataTable data={data} filename={filename} />;
+}
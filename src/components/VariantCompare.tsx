@@ -0,0 +1,134 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { AnswerVariants } from '../services/storage';
+import type { Message } from '../types/api';
+import { diffLines, diffWords, isSameText } from '../utils/diff';
+import type { DiffPart } from '../utils/diff';
+import { extractSqlQueries, formatSql } from '../utils/sql';
+import './VariantCompare.css';
+
+interface VariantCompareProps {
+  group: AnswerVariants;
+  onClose: () => void;
+}
+
+// Every query a variant ran, formatted so the diff is line by line
+function variantSql(message: Message): string {
+  return extractSqlQueries(message.debug_info)
+    .map(query => formatSql(query.sql))
+    .join('\n\n');
+}
+
+// One side of a diff: unchanged text plus what this side removed or added
+function DiffText({ parts, side }: { parts: DiffPart[]; side: 'before' | 'after' }) {
+  const hidden = side === 'before' ? 'added' : 'removed';
+  return (
+    <>
+      {parts.filter(part => part.type !== hidden).map((part, index) =>
+        part.type === 'same'
+          ? <span key={index}>{part.text}</span>
+          : <mark key={index} className={`diff-${part.type}`}>{part.text}</mark>
+      )}
+    </>
+  );
+}
+
+function VariantSelect({ group, value, onChange, label }: {
+  group: AnswerVariants;
+  value: number;
+  onChange: (index: number) => void;
+  label: string;
+}) {
+  return (
+    <select
+      className="variant-compare-select"
+      value={value}
+      onChange={e => onChange(Number(e.target.value))}
+      aria-label={label}
+    >
+      {group.variants.map((_, index) => (
+        <option key={index} value={index}>
+          Variant {index + 1}{index === group.selected ? ' (shown)' : ''}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * Side-by-side view of two answers to the same question, diffing the answer
+ * text word by word and the SQL each one ran line by line.
+ */
+export function VariantCompare({ group, onClose }: VariantCompareProps) {
+  const [left, setLeft] = useState(Math.max(0, group.selected - 1));
+  const [right, setRight] = useState(group.selected === 0 ? 1 : group.selected);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const before = group.variants[left];
+  const after = group.variants[right];
+  const textDiff = useMemo(() => diffWords(before.content, after.content), [before, after]);
+  const beforeSql = useMemo(() => variantSql(before), [before]);
+  const afterSql = useMemo(() => variantSql(after), [after]);
+  const sqlDiff = useMemo(() => diffLines(beforeSql, afterSql), [beforeSql, afterSql]);
+  const hasSql = Boolean(beforeSql || afterSql);
+
+  return (
+    <div className="variant-compare-overlay" onClick={onClose}>
+      <div
+        className="variant-compare"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="variant-compare-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="variant-compare-header">
+          <h2 id="variant-compare-title">Compare answers</h2>
+          <button className="variant-compare-close" onClick={onClose} aria-label="Close comparison">
+            ×
+          </button>
+        </div>
+        <div className="variant-compare-body">
+          <p className="variant-compare-question">{group.question}</p>
+          <div className="variant-compare-columns">
+            <VariantSelect group={group} value={left} onChange={setLeft} label="Left variant" />
+            <VariantSelect group={group} value={right} onChange={setRight} label="Right variant" />
+          </div>
+
+          <h3>
+            Answer
+            <span className="variant-compare-status">
+              {isSameText(textDiff) ? 'Identical' : 'Changed'}
+            </span>
+          </h3>
+          <div className="variant-compare-columns">
+            <div className="variant-compare-text"><DiffText parts={textDiff} side="before" /></div>
+            <div className="variant-compare-text"><DiffText parts={textDiff} side="after" /></div>
+          </div>
+
+          <h3>
+            SQL
+            <span className="variant-compare-status">
+              {!hasSql ? 'No queries' : isSameText(sqlDiff) ? 'Same queries' : 'Queries changed'}
+            </span>
+          </h3>
+          {hasSql && (
+            <div className="variant-compare-columns">
+              <pre className="variant-compare-sql">
+                {beforeSql ? <DiffText parts={sqlDiff} side="before" /> : <em>No SQL</em>}
+              </pre>
+              <pre className="variant-compare-sql">
+                {afterSql ? <DiffText parts={sqlDiff} side="after" /> : <em>No SQL</em>}
+              </pre>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
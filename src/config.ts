@@ -7,3 +7,47 @@ export const API_ENDPOINTS = {
   chat: '/chat',
 } as const;
 
+// Stream assistant responses over SSE when the backend supports it
+export const STREAMING_ENABLED = import.meta.env.VITE_ENABLE_STREAMING !== 'false';
+
+// Where answer feedback is posted (absolute URL, or a path on the API server);
+// feedback is only kept locally when unset
+export const FEEDBACK_ENDPOINT = import.meta.env.VITE_FEEDBACK_ENDPOINT || '';
+
+// Example questions on the welcome screen; edit public/starter-questions.json
+// or point this at another file with the same shape
+export const STARTER_QUESTIONS_URL = import.meta.env.VITE_STARTER_QUESTIONS_URL || '/starter-questions.json';
+// How many of the user's own recent questions the welcome screen offers
+export const RECENT_QUESTIONS_LIMIT = 8;
+
+// Default transcription endpoint for the recorded-audio speech-to-text provider
+// (e.g. a self-hosted Whisper server); users can change it in settings
+export const TRANSCRIPTION_ENDPOINT = import.meta.env.VITE_TRANSCRIPTION_ENDPOINT || '';
+export const TRANSCRIPTION_MODEL = import.meta.env.VITE_TRANSCRIPTION_MODEL || 'whisper-1';
+
+// Default endpoint, model and voice of the HTTP text-to-speech provider
+// (OpenAI-compatible speech servers); endpoint and voice can be changed in settings
+export const TTS_ENDPOINT = import.meta.env.VITE_TTS_ENDPOINT || '';
+export const TTS_MODEL = import.meta.env.VITE_TTS_MODEL || 'tts-1';
+export const TTS_VOICE = import.meta.env.VITE_TTS_VOICE || 'alloy';
+
+// Client-side request timeouts (ms). Agent runs get a longer budget.
+export const REQUEST_TIMEOUT_MS = Number(import.meta.env.VITE_REQUEST_TIMEOUT_MS) || 15000;
+export const CHAT_TIMEOUT_MS = Number(import.meta.env.VITE_CHAT_TIMEOUT_MS) || 120000;
+
+// Offline outbox: exponential backoff between send attempts
+export const OUTBOX_RETRY_BASE_MS = 2000;
+export const OUTBOX_RETRY_MAX_MS = 60000;
+export const OUTBOX_MAX_ATTEMPTS = 6;
+
+// How often to re-check backend health while it is unavailable
+export const HEALTH_RETRY_INTERVAL_MS = 15000;
+
+// Cache quota policy: above THRESHOLD of the storage quota, evict message
+// caches of least-recently-used threads until usage drops to TARGET
+export const STORAGE_EVICTION_THRESHOLD = 0.8;
+export const STORAGE_EVICTION_TARGET = 0.6;
+
+// Page sizes for infinite scroll (API maximums: 100 threads, 200 messages)
+export const THREAD_PAGE_SIZE = 50;
+export const MESSAGE_PAGE_SIZE = 50;
@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+
+// How long `copied` stays true after a successful copy
+const COPIED_FEEDBACK_MS = 1500;
+
+/**
+ * Copy text to the clipboard; `copied` is briefly true afterwards so the
+ * button can say "Copied".
+ */
+export function useCopyToClipboard(): { copied: boolean; copy: (text: string) => Promise<void> } {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const copy = useCallback(async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+    }
+  }, []);
+
+  return { copied, copy };
+}
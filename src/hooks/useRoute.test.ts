@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { parseRoute, routePath } from './useRoute';
+import type { Route } from './useRoute';
+
+describe('parseRoute', () => {
+  it.each<[string, Route]>([
+    ['/', { name: 'home' }],
+    ['/threads/abc-123', { name: 'thread', threadId: 'abc-123' }],
+    ['/threads/abc-123/', { name: 'thread', threadId: 'abc-123' }],
+    ['/threads/local-a%2Fb', { name: 'thread', threadId: 'local-a/b' }],
+    ['/threads/%E0', { name: 'home' }],
+    ['/threads/abc%', { name: 'home' }],
+    ['/settings', { name: 'home' }],
+  ])('reads %s', (pathname, route) => {
+    expect(parseRoute(pathname)).toEqual(route);
+  });
+
+  it('round-trips thread ids through routePath', () => {
+    const route: Route = { name: 'thread', threadId: 'a b/ü%' };
+    expect(parseRoute(routePath(route))).toEqual(route);
+  });
+});
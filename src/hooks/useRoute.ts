@@ -0,0 +1,68 @@
+import { useSyncExternalStore } from 'react';
+
+/**
+ * Minimal client-side routing on top of the History API.
+ *
+ *   /                    -> { name: 'home' }
+ *   /threads/:threadId   -> { name: 'thread', threadId }
+ *
+ * Anything else is treated as home and the URL is normalised to `/`.
+ */
+export type Route =
+  | { name: 'home' }
+  | { name: 'thread'; threadId: string };
+
+// Fired on pushState/replaceState, which (unlike back/forward) don't emit popstate
+const ROUTE_CHANGE_EVENT = 'routechange';
+
+const THREAD_PATH = /^\/threads\/([^/]+)\/?$/;
+
+export function parseRoute(pathname: string): Route {
+  const match = THREAD_PATH.exec(pathname);
+  if (match) {
+    try {
+      return { name: 'thread', threadId: decodeURIComponent(match[1]) };
+    } catch {
+      // Malformed escape in a mistyped or truncated link (e.g. `/threads/%E0`)
+      return { name: 'home' };
+    }
+  }
+  return { name: 'home' };
+}
+
+export function routePath(route: Route): string {
+  return route.name === 'thread'
+    ? `/threads/${encodeURIComponent(route.threadId)}`
+    : '/';
+}
+
+// replace: swap the current history entry instead of adding one (redirects, id changes)
+export function navigate(route: Route, { replace = false }: { replace?: boolean } = {}): void {
+  const path = routePath(route);
+  if (path === window.location.pathname) return;
+  if (replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+  window.dispatchEvent(new Event(ROUTE_CHANGE_EVENT));
+}
+
+function subscribe(onChange: () => void) {
+  window.addEventListener('popstate', onChange);
+  window.addEventListener(ROUTE_CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener('popstate', onChange);
+    window.removeEventListener(ROUTE_CHANGE_EVENT, onChange);
+  };
+}
+
+function getPathname() {
+  return window.location.pathname;
+}
+
+// Current route, re-rendering on navigation and browser back/forward
+export function useRoute(): Route {
+  const pathname = useSyncExternalStore(subscribe, getPathname);
+  return parseRoute(pathname);
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { speechPlayer } from '../services/textToSpeech';
+import type { SpeechPlayerState, SpeechPlayerUpdatedDetail } from '../services/textToSpeech';
+
+// What the speech player is reading, updated as it moves through the queue
+export function useSpeechPlayer(): SpeechPlayerState {
+  const [state, setState] = useState<SpeechPlayerState>(() => speechPlayer.getState());
+
+  useEffect(() => {
+    const handleUpdated = (event: Event) => {
+      setState((event as CustomEvent<SpeechPlayerUpdatedDetail>).detail.state);
+    };
+    window.addEventListener('speechPlayerUpdated', handleUpdated);
+    return () => window.removeEventListener('speechPlayerUpdated', handleUpdated);
+  }, []);
+
+  return state;
+}
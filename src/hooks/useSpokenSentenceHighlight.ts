@@ -0,0 +1,25 @@
+import { useEffect } from 'react';
+import type { SpeechPlayerState } from '../services/textToSpeech';
+import { findTextRange } from '../utils/textRange';
+
+const HIGHLIGHT_NAME = 'spoken-sentence';
+
+/**
+ * Highlights the sentence being read inside its message bubble (CSS Custom
+ * Highlight API; browsers without it just don't highlight) and keeps it in view.
+ */
+export function useSpokenSentenceHighlight({ itemKey, sentence }: SpeechPlayerState) {
+  useEffect(() => {
+    if (!itemKey || !sentence || typeof CSS === 'undefined' || !CSS.highlights) return;
+    const bubble = document.querySelector(`[data-message-key="${CSS.escape(itemKey)}"] .message-text`);
+    // Table summaries aren't on screen, so they have no range
+    const range = bubble ? findTextRange(bubble, sentence.display) : null;
+    if (!range) return;
+
+    CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(range));
+    range.startContainer.parentElement?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    return () => {
+      CSS.highlights.delete(HIGHLIGHT_NAME);
+    };
+  }, [itemKey, sentence]);
+}
@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { loadStarterQuestions } from '../services/starterQuestions';
+import type { StarterCategory } from '../services/starterQuestions';
+import { storage } from '../services/storage';
+import { RECENT_QUESTIONS_LIMIT } from '../config';
+
+/**
+ * Example question categories for the welcome screen, plus the user's own
+ * recently asked questions from the cache
+ */
+export function useStarterQuestions(): { categories: StarterCategory[]; recent: string[] } {
+  const [categories, setCategories] = useState<StarterCategory[]>([]);
+  const [recent, setRecent] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadStarterQuestions().then(loaded => {
+      if (!cancelled) setCategories(loaded);
+    });
+    storage.getRecentQuestions(RECENT_QUESTIONS_LIMIT).then(questions => {
+      if (!cancelled) setRecent(questions);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { categories, recent };
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { getVoiceSettings } from '../services/voiceSettings';
+import type { VoiceSettings, VoiceSettingsChangedDetail } from '../services/voiceSettings';
+
+// Voice preferences, updated when they are changed in the settings panel
+export function useVoiceSettings(): VoiceSettings {
+  const [settings, setSettings] = useState<VoiceSettings>(getVoiceSettings);
+
+  useEffect(() => {
+    const handleChanged = (event: Event) => {
+      setSettings((event as CustomEvent<VoiceSettingsChangedDetail>).detail.settings);
+    };
+    window.addEventListener('voiceSettingsChanged', handleChanged);
+    return () => window.removeEventListener('voiceSettingsChanged', handleChanged);
+  }, []);
+
+  return settings;
+}
@@ -1,4 +1,11 @@
-import { API_BASE_URL } from '../config';
+import {
+  API_BASE_URL,
+  STREAMING_ENABLED,
+  REQUEST_TIMEOUT_MS,
+  CHAT_TIMEOUT_MS,
+  FEEDBACK_ENDPOINT,
+  TRANSCRIPTION_MODEL,
+} from '../config';
 import type {
   ThreadInfo,
   ThreadListResponse,
@@ -6,8 +13,15 @@ import type {
   MessagesResponse,
   ChatRequest,
   ChatResponse,
+  ChatStreamEvent,
+  ToolCallInfo,
   HealthResponse,
   DeleteThreadResponse,
+  ThreadUpdateRequest,
+  ThreadBranchRequest,
+  FeedbackRequest,
+  TranscriptionResponse,
+  SpeechRequest,
   ApiError,
 } from '../types/api';
 
@@ -35,67 +49,476 @@ async function handleResponse<T>(response: Response): Promise<T> {
   return response.json();
 }
 
+/**
+ * Parse a server-sent events body into stream events.
+ * Each event's `data:` payload is JSON; the `event:` field, when present,
+ * is used as the event type if the payload does not carry one.
+ */
+async function* readEventStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseBlock = (block: string): ChatStreamEvent | null => {
+    let eventName: string | null = null;
+    const dataLines: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) {
+        eventName = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trimStart());
+      }
+    }
+    if (dataLines.length === 0) return null;
+    const data = dataLines.join('\n');
+    if (data === '[DONE]') return null;
+    const payload = JSON.parse(data);
+    const type = payload.type ?? eventName;
+    return type ? ({ ...payload, type } as ChatStreamEvent) : null;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? '';
+      for (const block of blocks) {
+        const event = parseBlock(block);
+        if (event) yield event;
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) {
+      const event = parseBlock(buffer);
+      if (event) yield event;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Consume an SSE chat response, forwarding events and assembling the final reply
+async function readChatStream(
+  response: Response,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<ChatResponse> {
+  let text = '';
+  let done: Extract<ChatStreamEvent, { type: 'done' }> | null = null;
+  const toolCalls = new Map<string, ToolCallInfo>();
+
+  for await (const event of readEventStream(response.body!)) {
+    switch (event.type) {
+      case 'text_delta':
+        text += event.delta;
+        break;
+      case 'tool_call_start':
+        toolCalls.set(event.tool_call_id, {
+          tool_name: event.tool_name,
+          args: event.args,
+          tool_call_id: event.tool_call_id,
+          output: null,
+        });
+        break;
+      case 'tool_call_end': {
+        const call = toolCalls.get(event.tool_call_id);
+        if (call) call.output = event.output;
+        break;
+      }
+      case 'done':
+        done = event;
+        break;
+      case 'error':
+        throw new ApiError(response.status, event.detail || 'Stream failed');
+    }
+    onEvent(event);
+  }
+
+  if (!done) {
+    throw new ApiError(response.status, 'Stream ended before the response completed');
+  }
+
+  return {
+    response: text,
+    thread_id: done.thread_id,
+    message_id: done.message_id,
+    timestamp: done.timestamp,
+    debug_info: done.debug_info ?? (toolCalls.size > 0
+      ? { step_count: toolCalls.size, tool_calls: [...toolCalls.values()], model_name: null }
+      : null),
+    suggestions: done.suggestions ?? null,
+  };
+}
+
+// Replay a complete ChatResponse through a stream event handler
+function emitResponseAsEvents(
+  data: ChatResponse,
+  onEvent: (event: ChatStreamEvent) => void
+) {
+  data.debug_info?.tool_calls.forEach(tool => {
+    onEvent({
+      type: 'tool_call_start',
+      tool_call_id: tool.tool_call_id,
+      tool_name: tool.tool_name,
+      args: tool.args,
+    });
+    onEvent({ type: 'tool_call_end', tool_call_id: tool.tool_call_id, output: tool.output });
+  });
+  if (data.response) {
+    onEvent({ type: 'text_delta', delta: data.response });
+  }
+  onEvent({
+    type: 'done',
+    thread_id: data.thread_id,
+    message_id: data.message_id,
+    timestamp: data.timestamp,
+    debug_info: data.debug_info,
+    suggestions: data.suggestions,
+  });
+}
+
+export interface RequestOptions {
+  // Cancels the request when aborted (e.g. a Stop button or thread switch)
+  signal?: AbortSignal;
+  // Overrides the client's default timeout; 0 disables it
+  timeoutMs?: number;
+}
+
+/**
+ * True when a request was cancelled through its abort signal.
+ * Timeouts are reported as an ApiError (408) instead.
+ */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+/**
+ * Whether the server has no such endpoint: 405/501, or a 404 with FastAPI's
+ * generic detail (a missing thread carries its own message)
+ */
+async function isMissingRoute(response: Response): Promise<boolean> {
+  if (response.status === 405 || response.status === 501) return true;
+  if (response.status !== 404) return false;
+  const body = await response.clone().json().catch(() => null);
+  return body?.detail === 'Not Found';
+}
+
 export class ChinookAgentAPI {
   private baseURL: string;
+  private timeoutMs: number;
+  private chatTimeoutMs: number;
+  // Flipped off after the server tells us it has no streaming endpoint
+  private streamingSupported = STREAMING_ENABLED;
+  // Flipped off after the server tells us it can't update thread metadata
+  private threadUpdatesSupported = true;
+  // Flipped off after the server tells us it can't branch threads
+  private threadBranchesSupported = true;
 
-  constructor(baseURL: string = API_BASE_URL) {
+  constructor(
+    baseURL: string = API_BASE_URL,
+    timeoutMs: number = REQUEST_TIMEOUT_MS,
+    chatTimeoutMs: number = CHAT_TIMEOUT_MS
+  ) {
     this.baseURL = baseURL;
+    this.timeoutMs = timeoutMs;
+    this.chatTimeoutMs = chatTimeoutMs;
+  }
+
+  /**
+   * Run a fetch and read its response under one abort controller, so the
+   * timeout and the caller's signal also cover reading the body.
+   */
+  private async request<T>(
+    path: string,
+    init: RequestInit,
+    options: RequestOptions,
+    defaultTimeoutMs: number,
+    read: (response: Response) => Promise<T>
+  ): Promise<T> {
+    const { signal, timeoutMs = defaultTimeoutMs } = options;
+    if (signal?.aborted) {
+      throw new DOMException('Request aborted', 'AbortError');
+    }
+
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    let timedOut = false;
+    const timer = timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : null;
+
+    try {
+      // Absolute URLs (e.g. a separate feedback service) are used as given
+      const url = /^https?:\/\//i.test(path) ? path : `${this.baseURL}${path}`;
+      const response = await fetch(url, {
+        ...init,
+        signal: controller.signal,
+      });
+      return await read(response);
+    } catch (err) {
+      if (timedOut) {
+        throw new ApiError(408, `Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+      }
+      if (controller.signal.aborted) {
+        throw new DOMException('Request aborted', 'AbortError');
+      }
+      throw err;
+    } finally {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
   }
 
-  async healthCheck(): Promise<HealthResponse> {
-    const response = await fetch(`${this.baseURL}/health`);
-    return handleResponse<HealthResponse>(response);
+  async healthCheck(options: RequestOptions = {}): Promise<HealthResponse> {
+    return this.request('/health', {}, options, this.timeoutMs,
+      response => handleResponse<HealthResponse>(response));
   }
 
-  async createThread(title?: string, threadId?: string): Promise<ThreadInfo> {
-    const response = await fetch(`${this.baseURL}/threads`, {
+  async createThread(
+    title?: string,
+    threadId?: string,
+    options: RequestOptions = {}
+  ): Promise<ThreadInfo> {
+    return this.request('/threads', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ title, thread_id: threadId }),
-    });
-    return handleResponse<ThreadInfo>(response);
+    }, options, this.timeoutMs, response => handleResponse<ThreadInfo>(response));
   }
 
-  async listThreads(limit = 20, offset = 0): Promise<ThreadListResponse> {
-    const response = await fetch(
-      `${this.baseURL}/threads?limit=${limit}&offset=${offset}`
-    );
-    return handleResponse<ThreadListResponse>(response);
+  async listThreads(
+    limit = 20,
+    offset = 0,
+    options: RequestOptions = {}
+  ): Promise<ThreadListResponse> {
+    return this.request(`/threads?limit=${limit}&offset=${offset}`, {}, options,
+      this.timeoutMs, response => handleResponse<ThreadListResponse>(response));
   }
 
-  async getThread(threadId: string): Promise<ThreadInfo> {
-    const response = await fetch(`${this.baseURL}/threads/${threadId}`);
-    return handleResponse<ThreadInfo>(response);
+  async getThread(threadId: string, options: RequestOptions = {}): Promise<ThreadInfo> {
+    return this.request(`/threads/${threadId}`, {}, options, this.timeoutMs,
+      response => handleResponse<ThreadInfo>(response));
   }
 
   async getMessages(
     threadId: string,
     limit = 50,
-    offset = 0
+    offset = 0,
+    options: RequestOptions = {}
   ): Promise<MessagesResponse> {
-    const response = await fetch(
-      `${this.baseURL}/threads/${threadId}/messages?limit=${limit}&offset=${offset}`
+    return this.request(
+      `/threads/${threadId}/messages?limit=${limit}&offset=${offset}`,
+      {},
+      options,
+      this.timeoutMs,
+      response => handleResponse<MessagesResponse>(response)
     );
-    return handleResponse<MessagesResponse>(response);
   }
 
   async sendMessage(
     message: string,
-    threadId?: string
+    threadId?: string,
+    options: RequestOptions = {}
   ): Promise<ChatResponse> {
-    const response = await fetch(`${this.baseURL}/chat`, {
+    return this.request('/chat', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ message, thread_id: threadId }),
+    }, options, this.chatTimeoutMs, response => handleResponse<ChatResponse>(response));
+  }
+
+  /**
+   * Send a message and receive the answer incrementally.
+   * Events are passed to `onEvent` as they arrive; the resolved value is the
+   * same ChatResponse that `sendMessage` returns. Falls back to `sendMessage`
+   * (replaying its result as events) when the server can't stream.
+   */
+  async streamMessage(
+    message: string,
+    threadId: string | undefined,
+    onEvent: (event: ChatStreamEvent) => void,
+    options: RequestOptions = {}
+  ): Promise<ChatResponse> {
+    if (!this.streamingSupported) {
+      return this.sendMessageAsStream(message, threadId, onEvent, options);
+    }
+
+    const result = await this.request('/chat/stream', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+      },
+      body: JSON.stringify({ message, thread_id: threadId }),
+    }, options, this.chatTimeoutMs, async response => {
+      // Only a missing endpoint turns streaming off; a missing thread is an error
+      if (await isMissingRoute(response)) {
+        this.streamingSupported = false;
+        return null;
+      }
+
+      const contentType = response.headers.get('Content-Type') || '';
+      if (!response.ok || !contentType.includes('text/event-stream') || !response.body) {
+        // Non-streaming reply (or error) from the stream endpoint
+        const data = await handleResponse<ChatResponse>(response);
+        emitResponseAsEvents(data, onEvent);
+        return data;
+      }
+
+      return readChatStream(response, onEvent);
     });
-    return handleResponse<ChatResponse>(response);
+
+    return result ?? this.sendMessageAsStream(message, threadId, onEvent, options);
   }
 
-  async deleteThread(threadId: string): Promise<DeleteThreadResponse> {
-    const response = await fetch(`${this.baseURL}/threads/${threadId}`, {
-      method: 'DELETE',
+  private async sendMessageAsStream(
+    message: string,
+    threadId: string | undefined,
+    onEvent: (event: ChatStreamEvent) => void,
+    options: RequestOptions
+  ): Promise<ChatResponse> {
+    const data = await this.sendMessage(message, threadId, options);
+    emitResponseAsEvents(data, onEvent);
+    return data;
+  }
+
+  /**
+   * Update thread metadata (title, pinned, archived). Resolves to null, and
+   * stops trying, when the server has no PATCH endpoint for threads; the
+   * caller keeps the change locally in that case.
+   */
+  async updateThread(
+    threadId: string,
+    changes: ThreadUpdateRequest,
+    options: RequestOptions = {}
+  ): Promise<ThreadInfo | null> {
+    if (!this.threadUpdatesSupported) return null;
+
+    return this.request(`/threads/${threadId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(changes),
+    }, options, this.timeoutMs, async response => {
+      if (await isMissingRoute(response)) {
+        this.threadUpdatesSupported = false;
+        return null;
+      }
+      return handleResponse<ThreadInfo>(response);
     });
-    return handleResponse<DeleteThreadResponse>(response);
+  }
+
+  /**
+   * Fork a thread on the server, copying its first `keepUserTurns` questions
+   * and their answers into a new thread. Resolves to null, and stops trying,
+   * when the server has no branch endpoint; the caller replays the questions
+   * in a new thread instead.
+   */
+  async branchThread(
+    threadId: string,
+    keepUserTurns: number,
+    options: RequestOptions = {}
+  ): Promise<ThreadInfo | null> {
+    if (!this.threadBranchesSupported) return null;
+
+    const body: ThreadBranchRequest = { keep_user_turns: keepUserTurns };
+    return this.request(`/threads/${threadId}/branch`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    }, options, this.timeoutMs, async response => {
+      if (await isMissingRoute(response)) {
+        this.threadBranchesSupported = false;
+        return null;
+      }
+      return handleResponse<ThreadInfo>(response);
+    });
+  }
+
+  /**
+   * Post answer feedback to the configured feedback endpoint. Resolves to
+   * false when no endpoint is configured.
+   */
+  async submitFeedback(
+    feedback: FeedbackRequest,
+    options: RequestOptions = {}
+  ): Promise<boolean> {
+    if (!FEEDBACK_ENDPOINT) return false;
+
+    return this.request(FEEDBACK_ENDPOINT, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(feedback),
+    }, options, this.timeoutMs, async response => {
+      if (!response.ok) {
+        await handleResponse<unknown>(response);
+      }
+      return true;
+    });
+  }
+
+  // Recorded speech is posted as multipart form data; transcribing on a CPU
+  // can be slow, so it gets the agent-run timeout
+  async transcribeAudio(
+    endpoint: string,
+    audio: Blob,
+    filename: string,
+    options: RequestOptions = {}
+  ): Promise<string> {
+    const form = new FormData();
+    form.append('file', audio, filename);
+    form.append('model', TRANSCRIPTION_MODEL);
+    const language = navigator.language?.split('-')[0];
+    if (language) form.append('language', language);
+
+    return this.request(endpoint, {
+      method: 'POST',
+      body: form,
+    }, options, this.chatTimeoutMs, async response => {
+      const data = await handleResponse<TranscriptionResponse>(response);
+      return (data.text ?? '').trim();
+    });
+  }
+
+  async synthesizeSpeech(
+    endpoint: string,
+    speech: SpeechRequest,
+    options: RequestOptions = {}
+  ): Promise<Blob> {
+    return this.request(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(speech),
+    }, options, this.chatTimeoutMs, async response => {
+      if (!response.ok) {
+        await handleResponse<unknown>(response);
+      }
+      return response.blob();
+    });
+  }
+
+  async deleteThread(
+    threadId: string,
+    options: RequestOptions = {}
+  ): Promise<DeleteThreadResponse> {
+    return this.request(`/threads/${threadId}`, { method: 'DELETE' }, options,
+      this.timeoutMs, response => handleResponse<DeleteThreadResponse>(response));
   }
 }
 
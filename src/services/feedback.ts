@@ -0,0 +1,65 @@
+import type { FeedbackCategory, FeedbackRating, Message } from '../types/api';
+import { api } from './api';
+import { storage } from './storage';
+import type { MessageFeedback } from './storage';
+import { getMessageKey } from '../utils/messageKey';
+import { toFeedbackRequest } from '../utils/feedback';
+
+export interface FeedbackInput {
+  rating: FeedbackRating;
+  category: FeedbackCategory | null;
+  note: string;
+}
+
+async function post(feedback: MessageFeedback): Promise<void> {
+  try {
+    if (await api.submitFeedback(toFeedbackRequest(feedback))) {
+      await storage.markFeedbackPosted(feedback.threadId, feedback.messageKey, feedback.updatedAt);
+    }
+  } catch (err) {
+    console.warn('Failed to send answer feedback:', err);
+  }
+}
+
+/**
+ * Save the user's feedback on an answer, replacing any earlier feedback on
+ * it, then post it to the feedback endpoint when one is configured. The
+ * local copy is kept (unposted) if sending fails.
+ */
+export async function recordFeedback(
+  threadId: string,
+  answer: Message,
+  question: string | null,
+  input: FeedbackInput,
+  previous: MessageFeedback | null = null
+): Promise<MessageFeedback> {
+  const now = new Date().toISOString();
+  const feedback: MessageFeedback = {
+    threadId,
+    messageKey: getMessageKey(answer),
+    ...input,
+    question,
+    answer,
+    createdAt: previous?.createdAt ?? now,
+    updatedAt: now,
+    posted: false,
+  };
+  await storage.saveFeedback(feedback);
+  // Sent in the background; the UI only needs the local copy
+  post(feedback);
+  return feedback;
+}
+
+// Retry posting feedback the endpoint hasn't accepted yet; resolves to how many are still unsent
+export async function sendUnpostedFeedback(): Promise<number> {
+  const unposted = (await storage.getFeedback()).filter(entry => !entry.posted);
+  for (const feedback of unposted) {
+    await post(feedback);
+  }
+  return (await storage.getFeedback()).filter(entry => !entry.posted).length;
+}
+
+// Take back the rating of an answer (locally; a posted copy stays with the endpoint)
+export async function removeFeedback(threadId: string, answer: Message): Promise<void> {
+  await storage.removeFeedback(threadId, getMessageKey(answer));
+}
@@ -0,0 +1,224 @@
+import type { Message } from '../types/api';
+import type { StorageBackend, StoredThread, StorageUsage } from '../types/storage';
+
+const DB_NAME = 'chinook';
+const DB_VERSION = 1;
+
+const STORES = {
+  THREADS: 'threads',
+  MESSAGES: 'messages',
+  META: 'meta',
+} as const;
+
+// One row per message. `position` keeps the thread's order stable even when
+// timestamps are missing; `sort_time` backs the timestamp index.
+interface MessageRecord {
+  key?: number;
+  thread_id: string;
+  position: number;
+  sort_time: number;
+  message: Message;
+}
+
+interface ThreadRecord extends StoredThread {
+  _order: number;
+}
+
+interface MetaRecord {
+  key: string;
+  value: unknown;
+}
+
+// Wrap an IDBRequest in a promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Resolve once a transaction has committed
+function completed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    // tx.error is only set once the transaction aborts; the failed request has it first
+    tx.onerror = event => reject((event.target as IDBRequest | null)?.error ?? tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+function toRecord(threadId: string, message: Message, position: number): MessageRecord {
+  return {
+    thread_id: threadId,
+    position,
+    sort_time: message.timestamp ? new Date(message.timestamp).getTime() || 0 : 0,
+    message,
+  };
+}
+
+// Key range covering every record of one thread in a [thread_id, n] index
+function threadRange(threadId: string): IDBKeyRange {
+  return IDBKeyRange.bound([threadId, -Infinity], [threadId, Infinity]);
+}
+
+/**
+ * IndexedDB persistence: threads keyed by thread_id, and messages stored as
+ * individual records indexed by thread_id and timestamp, so adding a message
+ * writes one record instead of re-serializing the whole history.
+ */
+export class IndexedDBBackend implements StorageBackend {
+  readonly name = 'indexeddb' as const;
+  private db: IDBDatabase;
+
+  private constructor(db: IDBDatabase) {
+    this.db = db;
+  }
+
+  static async open(): Promise<IndexedDBBackend> {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.THREADS)) {
+        const threads = db.createObjectStore(STORES.THREADS, { keyPath: 'thread_id' });
+        threads.createIndex('last_activity', 'last_activity');
+      }
+      if (!db.objectStoreNames.contains(STORES.MESSAGES)) {
+        const messages = db.createObjectStore(STORES.MESSAGES, {
+          keyPath: 'key',
+          autoIncrement: true,
+        });
+        messages.createIndex('thread_id', 'thread_id');
+        messages.createIndex('thread_position', ['thread_id', 'position']);
+        messages.createIndex('thread_timestamp', ['thread_id', 'sort_time']);
+      }
+      if (!db.objectStoreNames.contains(STORES.META)) {
+        db.createObjectStore(STORES.META, { keyPath: 'key' });
+      }
+    };
+    const db = await promisify(request);
+    return new IndexedDBBackend(db);
+  }
+
+  async getThreads(): Promise<StoredThread[]> {
+    const tx = this.db.transaction(STORES.THREADS, 'readonly');
+    const records = await promisify<ThreadRecord[]>(tx.objectStore(STORES.THREADS).getAll());
+    // The store is keyed by thread_id; _order keeps the list in the caller's order
+    return records
+      .sort((a, b) => a._order - b._order)
+      .map(record => {
+        const thread: StoredThread & { _order?: number } = { ...record };
+        delete thread._order;
+        return thread;
+      });
+  }
+
+  async saveThreads(threads: StoredThread[]): Promise<void> {
+    const tx = this.db.transaction(STORES.THREADS, 'readwrite');
+    const store = tx.objectStore(STORES.THREADS);
+    store.clear();
+    threads.forEach((thread, index) => store.put({ ...thread, _order: index } as ThreadRecord));
+    await completed(tx);
+  }
+
+  async getMessages(threadId: string): Promise<Message[]> {
+    const tx = this.db.transaction(STORES.MESSAGES, 'readonly');
+    const index = tx.objectStore(STORES.MESSAGES).index('thread_position');
+    const records = await promisify<MessageRecord[]>(index.getAll(threadRange(threadId)));
+    return records.map(record => record.message);
+  }
+
+  async saveMessages(threadId: string, messages: Message[]): Promise<void> {
+    const tx = this.db.transaction(STORES.MESSAGES, 'readwrite');
+    const store = tx.objectStore(STORES.MESSAGES);
+    await this.deleteThreadRecords(store, threadId);
+    messages.forEach((message, position) => store.add(toRecord(threadId, message, position)));
+    await completed(tx);
+  }
+
+  async appendMessages(threadId: string, messages: Message[]): Promise<void> {
+    const tx = this.db.transaction(STORES.MESSAGES, 'readwrite');
+    const store = tx.objectStore(STORES.MESSAGES);
+    // Highest position in the thread: last key of the [thread_id, position] index
+    const cursor = await promisify(
+      store.index('thread_position').openKeyCursor(threadRange(threadId), 'prev')
+    );
+    const last = cursor ? (cursor.key as [string, number])[1] : -1;
+    messages.forEach((message, i) => store.add(toRecord(threadId, message, last + 1 + i)));
+    await completed(tx);
+  }
+
+  async removeMessages(threadId: string): Promise<void> {
+    const tx = this.db.transaction(STORES.MESSAGES, 'readwrite');
+    await this.deleteThreadRecords(tx.objectStore(STORES.MESSAGES), threadId);
+    await completed(tx);
+  }
+
+  async getMessageThreadIds(): Promise<string[]> {
+    const tx = this.db.transaction(STORES.MESSAGES, 'readonly');
+    const index = tx.objectStore(STORES.MESSAGES).index('thread_id');
+    const ids: string[] = [];
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openKeyCursor(null, 'nextunique');
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        ids.push(cursor.key as string);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+    return ids;
+  }
+
+  async getValue<T>(key: string): Promise<T | null> {
+    const tx = this.db.transaction(STORES.META, 'readonly');
+    const record = await promisify<MetaRecord | undefined>(tx.objectStore(STORES.META).get(key));
+    return record ? (record.value as T) : null;
+  }
+
+  async setValue<T>(key: string, value: T): Promise<void> {
+    const tx = this.db.transaction(STORES.META, 'readwrite');
+    tx.objectStore(STORES.META).put({ key, value });
+    await completed(tx);
+  }
+
+  async removeValue(key: string): Promise<void> {
+    const tx = this.db.transaction(STORES.META, 'readwrite');
+    tx.objectStore(STORES.META).delete(key);
+    await completed(tx);
+  }
+
+  async clear(): Promise<void> {
+    const names = [STORES.THREADS, STORES.MESSAGES, STORES.META];
+    const tx = this.db.transaction(names, 'readwrite');
+    names.forEach(name => tx.objectStore(name).clear());
+    await completed(tx);
+  }
+
+  async getUsage(): Promise<StorageUsage> {
+    if (navigator.storage?.estimate) {
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      return { used: usage, quota };
+    }
+    return { used: 0, quota: 0 };
+  }
+
+  private deleteThreadRecords(store: IDBObjectStore, threadId: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = store.index('thread_id').openKeyCursor(IDBKeyRange.only(threadId));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
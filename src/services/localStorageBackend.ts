@@ -0,0 +1,102 @@
+import type { Message } from '../types/api';
+import type { StorageBackend, StoredThread, StorageUsage } from '../types/storage';
+
+const STORAGE_KEYS = {
+  PREFIX: 'chinook_',
+  THREADS: 'chinook_threads',
+  MESSAGES: 'chinook_messages_',
+} as const;
+
+// Most browsers have ~5-10MB limit
+const ESTIMATED_LIMIT = 5 * 1024 * 1024; // 5MB
+
+interface StoredMessages {
+  messages: Message[];
+  lastSynced?: string;
+}
+
+/**
+ * localStorage persistence: the thread list and each thread's messages are
+ * stored as one JSON blob per key. Used when IndexedDB is unavailable.
+ */
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = 'localstorage' as const;
+
+  isAvailable(): boolean {
+    try {
+      const test = '__storage_test__';
+      localStorage.setItem(test, test);
+      localStorage.removeItem(test);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getThreads(): Promise<StoredThread[]> {
+    const stored = localStorage.getItem(STORAGE_KEYS.THREADS);
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  async saveThreads(threads: StoredThread[]): Promise<void> {
+    localStorage.setItem(STORAGE_KEYS.THREADS, JSON.stringify(threads));
+  }
+
+  async getMessages(threadId: string): Promise<Message[]> {
+    const stored = localStorage.getItem(`${STORAGE_KEYS.MESSAGES}${threadId}`);
+    if (!stored) return [];
+
+    const data: StoredMessages = JSON.parse(stored);
+    return data.messages || [];
+  }
+
+  async saveMessages(threadId: string, messages: Message[]): Promise<void> {
+    const stored: StoredMessages = {
+      messages,
+      lastSynced: new Date().toISOString(),
+    };
+    localStorage.setItem(`${STORAGE_KEYS.MESSAGES}${threadId}`, JSON.stringify(stored));
+  }
+
+  async appendMessages(threadId: string, messages: Message[]): Promise<void> {
+    const existing = await this.getMessages(threadId);
+    await this.saveMessages(threadId, [...existing, ...messages]);
+  }
+
+  async removeMessages(threadId: string): Promise<void> {
+    localStorage.removeItem(`${STORAGE_KEYS.MESSAGES}${threadId}`);
+  }
+
+  async getMessageThreadIds(): Promise<string[]> {
+    return Object.keys(localStorage)
+      .filter(key => key.startsWith(STORAGE_KEYS.MESSAGES))
+      .map(key => key.slice(STORAGE_KEYS.MESSAGES.length));
+  }
+
+  async getValue<T>(key: string): Promise<T | null> {
+    const stored = localStorage.getItem(`${STORAGE_KEYS.PREFIX}${key}`);
+    return stored ? (JSON.parse(stored) as T) : null;
+  }
+
+  async setValue<T>(key: string, value: T): Promise<void> {
+    localStorage.setItem(`${STORAGE_KEYS.PREFIX}${key}`, JSON.stringify(value));
+  }
+
+  async removeValue(key: string): Promise<void> {
+    localStorage.removeItem(`${STORAGE_KEYS.PREFIX}${key}`);
+  }
+
+  async clear(): Promise<void> {
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(STORAGE_KEYS.PREFIX))
+      .forEach(key => localStorage.removeItem(key));
+  }
+
+  async getUsage(): Promise<StorageUsage> {
+    let used = 0;
+    for (const key of Object.keys(localStorage)) {
+      used += (localStorage.getItem(key)?.length ?? 0) + key.length;
+    }
+    return { used, quota: ESTIMATED_LIMIT };
+  }
+}
@@ -0,0 +1,228 @@
+import type { Message } from '../types/api';
+import { api } from './api';
+import { storage, isLocalThreadId } from './storage';
+import type { OutboxEntry } from './storage';
+import { createClientId } from '../utils/ids';
+import {
+  OUTBOX_RETRY_BASE_MS,
+  OUTBOX_RETRY_MAX_MS,
+  OUTBOX_MAX_ATTEMPTS,
+} from '../config';
+
+export interface OutboxUpdatedDetail {
+  threadId: string;
+}
+
+export interface ThreadReconciledDetail {
+  localId: string;
+  serverId: string;
+}
+
+function notifyUpdated(threadId: string) {
+  window.dispatchEvent(
+    new CustomEvent<OutboxUpdatedDetail>('outboxUpdated', { detail: { threadId } })
+  );
+}
+
+// Delay before the next attempt: base * 2^(attempts - 1), capped
+function backoffDelay(attempts: number): number {
+  return Math.min(OUTBOX_RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), OUTBOX_RETRY_MAX_MS);
+}
+
+/**
+ * Sends messages that were written while the backend was unreachable.
+ * Entries are delivered in the order they were queued; a thread whose oldest
+ * entry is waiting or has failed holds back its later entries.
+ */
+class OutboxService {
+  private online = false;
+  private flushing = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  // Queue a user message for a thread and show it as pending
+  async enqueue(threadId: string, content: string): Promise<Message> {
+    const message: Message = {
+      id: null,
+      client_id: createClientId(),
+      role: 'user',
+      content,
+      timestamp: new Date().toISOString(),
+      status: 'pending',
+    };
+    await storage.addMessage(threadId, message);
+    await storage.addOutboxEntry({
+      id: message.client_id!,
+      threadId,
+      content,
+      timestamp: message.timestamp!,
+      attempts: 0,
+      nextAttemptAt: null,
+      lastError: null,
+      status: 'pending',
+    });
+    notifyUpdated(threadId);
+    if (this.online) {
+      this.flush();
+    }
+    return message;
+  }
+
+  setOnline(online: boolean): void {
+    this.online = online;
+    if (online) {
+      this.flush();
+    } else if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async retry(id: string): Promise<void> {
+    const entry = (await storage.getOutbox()).find(e => e.id === id);
+    if (!entry) return;
+    await storage.updateOutboxEntry(id, {
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: null,
+      lastError: null,
+    });
+    await this.setMessageStatus(entry, 'pending');
+    notifyUpdated(entry.threadId);
+    if (this.online) {
+      this.flush();
+    }
+  }
+
+  async discard(id: string): Promise<void> {
+    const entry = (await storage.getOutbox()).find(e => e.id === id);
+    if (!entry) return;
+    await storage.removeOutboxEntry(id);
+    await storage.removeMessage(entry.threadId, this.toMessage(entry));
+    notifyUpdated(entry.threadId);
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushing || !this.online) return;
+    this.flushing = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    try {
+      const blockedThreads = new Set<string>();
+      const entries = (await storage.getOutbox()).sort(
+        (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      );
+
+      for (const queued of entries) {
+        if (!this.online) break;
+        // Re-read: reconciliation may have changed the thread id
+        const entry = (await storage.getOutbox()).find(e => e.id === queued.id);
+        if (!entry || blockedThreads.has(entry.threadId)) continue;
+
+        const due = !entry.nextAttemptAt || new Date(entry.nextAttemptAt).getTime() <= Date.now();
+        if (entry.status === 'failed' || !due) {
+          blockedThreads.add(entry.threadId);
+          continue;
+        }
+
+        const sent = await this.send(entry);
+        if (!sent) {
+          blockedThreads.add(entry.threadId);
+        }
+      }
+    } finally {
+      this.flushing = false;
+      await this.scheduleNext();
+    }
+  }
+
+  private async send(entry: OutboxEntry): Promise<boolean> {
+    let threadId = entry.threadId;
+    try {
+      if (isLocalThreadId(threadId)) {
+        const localThread = await storage.getThread(threadId);
+        const serverThread = await api.createThread(localThread?.title ?? undefined);
+        await storage.reconcileThreadId(threadId, serverThread);
+        window.dispatchEvent(
+          new CustomEvent<ThreadReconciledDetail>('threadReconciled', {
+            detail: { localId: threadId, serverId: serverThread.thread_id },
+          })
+        );
+        threadId = serverThread.thread_id;
+      }
+
+      const response = await api.sendMessage(entry.content, threadId);
+      await storage.removeOutboxEntry(entry.id);
+      await storage.updateMessage(threadId, this.toMessage(entry), { status: undefined });
+      if (response.response && response.response.trim().length > 0) {
+        await storage.addMessage(threadId, {
+          id: response.message_id,
+          role: 'assistant',
+          content: response.response,
+          timestamp: response.timestamp,
+          debug_info: response.debug_info,
+          suggestions: response.suggestions,
+        });
+      }
+      notifyUpdated(threadId);
+      return true;
+    } catch (err) {
+      const attempts = entry.attempts + 1;
+      const gaveUp = attempts >= OUTBOX_MAX_ATTEMPTS;
+      await storage.updateOutboxEntry(entry.id, {
+        attempts,
+        lastError: err instanceof Error ? err.message : 'Failed to send message',
+        nextAttemptAt: gaveUp ? null : new Date(Date.now() + backoffDelay(attempts)).toISOString(),
+        status: gaveUp ? 'failed' : 'pending',
+      });
+      if (gaveUp) {
+        await this.setMessageStatus({ ...entry, threadId }, 'failed');
+      }
+      if (err instanceof TypeError) {
+        // fetch rejects with a TypeError when the server can't be reached
+        window.dispatchEvent(new Event('backendUnreachable'));
+      }
+      notifyUpdated(threadId);
+      return false;
+    }
+  }
+
+  private async scheduleNext() {
+    if (!this.online) return;
+    // Only the oldest entry of each thread can be sent next
+    const heads = new Map<string, OutboxEntry>();
+    (await storage.getOutbox())
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .forEach(entry => {
+        if (!heads.has(entry.threadId)) heads.set(entry.threadId, entry);
+      });
+    const waiting = [...heads.values()]
+      .filter(entry => entry.status === 'pending')
+      .map(entry => (entry.nextAttemptAt ? new Date(entry.nextAttemptAt).getTime() : Date.now()));
+    if (waiting.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...waiting) - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private setMessageStatus(entry: OutboxEntry, status: 'pending' | 'failed') {
+    return storage.updateMessage(entry.threadId, this.toMessage(entry), { status });
+  }
+
+  private toMessage(entry: OutboxEntry): Message {
+    return {
+      id: null,
+      client_id: entry.id,
+      role: 'user',
+      content: entry.content,
+      timestamp: entry.timestamp,
+    };
+  }
+}
+
+export const outbox = new OutboxService();
@@ -0,0 +1,263 @@
+import type { Message } from '../types/api';
+import { storage } from './storage';
+import type { StorageChange } from './storage';
+import { getMessageKey } from '../utils/messageKey';
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  threadId: string;
+  threadTitle: string | null;
+  // null when the thread title itself matched
+  messageKey: string | null;
+  role: Message['role'] | 'title';
+  snippet: SnippetPart[];
+  timestamp: string | null;
+}
+
+interface IndexedDoc {
+  id: string;
+  threadId: string;
+  messageKey: string | null;
+  role: SearchResult['role'];
+  text: string;
+  timestamp: string | null;
+}
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+const MAX_RESULTS = 50;
+// Characters of context shown around the first match
+const SNIPPET_CONTEXT = 60;
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Cut a window of `text` around the first match of any term and split it
+ * into plain and matching parts for highlighting. Terms match word prefixes,
+ * like the search itself.
+ */
+export function buildSnippet(text: string, terms: string[]): SnippetPart[] {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (terms.length === 0) {
+    return [{ text: flat.slice(0, SNIPPET_CONTEXT * 2), match: false }];
+  }
+
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join('|')})`,
+    'giu'
+  );
+  const first = flat.search(pattern);
+  let start = Math.max(0, (first < 0 ? 0 : first) - SNIPPET_CONTEXT);
+  const end = Math.min(flat.length, start + SNIPPET_CONTEXT * 3);
+  // Don't start mid-word
+  if (start > 0) {
+    const space = flat.indexOf(' ', start);
+    if (space >= 0 && space < (first < 0 ? end : first)) start = space + 1;
+  }
+
+  const window = flat.slice(start, end);
+  const parts: SnippetPart[] = [];
+  let last = 0;
+  for (const match of window.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > last) parts.push({ text: window.slice(last, index), match: false });
+    parts.push({ text: match[0], match: true });
+    last = index + match[0].length;
+  }
+  if (last < window.length) parts.push({ text: window.slice(last), match: false });
+
+  if (start > 0) parts.unshift({ text: '…', match: false });
+  if (end < flat.length) parts.push({ text: '…', match: false });
+  return parts;
+}
+
+// Only messages that are shown in the chat are searchable
+function isSearchable(message: Message): boolean {
+  return (message.role === 'user' || message.role === 'assistant') &&
+    Boolean(message.content && message.content.trim());
+}
+
+function docId(threadId: string, messageKey: string | null): string {
+  return `${threadId}\u0000${messageKey ?? 'title'}`;
+}
+
+/**
+ * Inverted index over thread titles and cached messages. Built from storage
+ * on the first search, then kept current from storage change notifications,
+ * so typing a query only looks up tokens instead of rescanning the cache.
+ */
+class SearchIndex {
+  private docs = new Map<string, IndexedDoc>();
+  // token -> ids of documents containing it
+  private postings = new Map<string, Set<string>>();
+  // thread -> ids of its message documents
+  private threadDocs = new Map<string, Set<string>>();
+  private titles = new Map<string, string | null>();
+  private ready: Promise<void> | null = null;
+  // Changes that arrive while the initial build is running, applied after it
+  private pendingChanges: StorageChange[] | null = null;
+
+  async search(query: string): Promise<SearchResult[]> {
+    await this.ensureReady();
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+
+    // Every term must match (as a word prefix) somewhere in the document
+    let matches: Set<string> | null = null;
+    for (const term of terms) {
+      const termMatches = new Set<string>();
+      this.postings.forEach((ids, token) => {
+        if (token.startsWith(term)) ids.forEach(id => termMatches.add(id));
+      });
+      matches = matches === null
+        ? termMatches
+        : new Set([...matches].filter((id: string) => termMatches.has(id)));
+      if (matches.size === 0) return [];
+    }
+
+    const time = (doc: IndexedDoc) => (doc.timestamp ? new Date(doc.timestamp).getTime() : 0);
+    return [...(matches ?? [])]
+      .map(id => this.docs.get(id)!)
+      // Title matches first, then newest messages
+      .sort((a, b) =>
+        Number(b.role === 'title') - Number(a.role === 'title') || time(b) - time(a)
+      )
+      .slice(0, MAX_RESULTS)
+      .map(doc => ({
+        threadId: doc.threadId,
+        threadTitle: this.titles.get(doc.threadId) ?? null,
+        messageKey: doc.messageKey,
+        role: doc.role,
+        snippet: buildSnippet(doc.text, terms),
+        timestamp: doc.timestamp,
+      }));
+  }
+
+  private ensureReady(): Promise<void> {
+    if (!this.ready) {
+      this.pendingChanges = [];
+      storage.onChange(change => this.handleChange(change));
+      this.ready = this.build();
+    }
+    return this.ready;
+  }
+
+  private async build(): Promise<void> {
+    await this.refreshTitles();
+    for (const threadId of await storage.getCachedThreadIds()) {
+      this.replaceThread(threadId, await storage.getMessages(threadId));
+    }
+    // Replaying in order leaves each thread as its latest change describes it
+    const pending = this.pendingChanges ?? [];
+    this.pendingChanges = null;
+    pending.forEach(change => this.applyChange(change));
+  }
+
+  private handleChange(change: StorageChange) {
+    if (this.pendingChanges) {
+      this.pendingChanges.push(change);
+    } else {
+      this.applyChange(change);
+    }
+  }
+
+  private applyChange(change: StorageChange) {
+    switch (change.type) {
+      case 'messagesAdded':
+        change.messages.forEach(message => this.addMessage(change.threadId, message));
+        break;
+      case 'messagesReplaced':
+        this.replaceThread(change.threadId, change.messages);
+        break;
+      case 'threadsChanged':
+        this.refreshTitles();
+        break;
+      case 'cleared':
+        this.docs.clear();
+        this.postings.clear();
+        this.threadDocs.clear();
+        this.titles.clear();
+        break;
+    }
+  }
+
+  private async refreshTitles() {
+    const threads = await storage.getThreads();
+    this.titles.forEach((_title, threadId) => this.removeDoc(docId(threadId, null)));
+    this.titles.clear();
+    threads.forEach(thread => {
+      this.titles.set(thread.thread_id, thread.title);
+      if (thread.title) {
+        this.addDoc({
+          id: docId(thread.thread_id, null),
+          threadId: thread.thread_id,
+          messageKey: null,
+          role: 'title',
+          text: thread.title,
+          timestamp: thread.last_activity,
+        });
+      }
+    });
+  }
+
+  private replaceThread(threadId: string, messages: Message[]) {
+    this.threadDocs.get(threadId)?.forEach(id => this.removeDoc(id));
+    this.threadDocs.delete(threadId);
+    messages.forEach(message => this.addMessage(threadId, message));
+  }
+
+  private addMessage(threadId: string, message: Message) {
+    if (!isSearchable(message)) return;
+    const messageKey = getMessageKey(message);
+    const id = docId(threadId, messageKey);
+    this.addDoc({
+      id,
+      threadId,
+      messageKey,
+      role: message.role,
+      text: message.content,
+      timestamp: message.timestamp,
+    });
+    let ids = this.threadDocs.get(threadId);
+    if (!ids) {
+      ids = new Set();
+      this.threadDocs.set(threadId, ids);
+    }
+    ids.add(id);
+  }
+
+  private addDoc(doc: IndexedDoc) {
+    this.removeDoc(doc.id);
+    this.docs.set(doc.id, doc);
+    new Set(tokenize(doc.text)).forEach(token => {
+      let ids = this.postings.get(token);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(token, ids);
+      }
+      ids.add(doc.id);
+    });
+  }
+
+  private removeDoc(id: string) {
+    const doc = this.docs.get(id);
+    if (!doc) return;
+    this.docs.delete(id);
+    new Set(tokenize(doc.text)).forEach(token => {
+      const ids = this.postings.get(token);
+      ids?.delete(id);
+      if (ids && ids.size === 0) this.postings.delete(token);
+    });
+  }
+}
+
+export const searchIndex = new SearchIndex();
@@ -0,0 +1,266 @@
+import { api } from './api';
+import type { SpeechToTextProviderId, VoiceSettings } from './voiceSettings';
+
+export interface SpeechToTextHandlers {
+  // Words recognised so far that may still change
+  onInterim: (text: string) => void;
+  // Settled text to append to the input
+  onFinal: (text: string) => void;
+  // Recording stopped and the audio is being transcribed
+  onTranscribing?: () => void;
+  // The user is heard speaking; hands-free mode sends the question after a pause in these
+  onSpeech?: () => void;
+  onError: (message: string) => void;
+  // Always called once when a session ends, after any final text
+  onEnd: () => void;
+}
+
+/**
+ * A speech-to-text backend for the mic button. start() begins one session;
+ * stop() ends it and delivers the remaining text, abort() drops it.
+ */
+export interface SpeechToTextProvider {
+  readonly id: SpeechToTextProviderId;
+  isSupported(): boolean;
+  start(handlers: SpeechToTextHandlers): Promise<void>;
+  stop(): void;
+  abort(): void;
+}
+
+export const SPEECH_TO_TEXT_PROVIDERS: { id: SpeechToTextProviderId; label: string; description: string }[] = [
+  {
+    id: 'webspeech',
+    label: 'Browser speech recognition',
+    description: 'Web Speech API with live interim text. Chrome, Edge and Safari; audio is sent to the browser vendor.',
+  },
+  {
+    id: 'recorder',
+    label: 'Transcription server',
+    description: 'Records audio in the browser and posts it to a transcription endpoint such as a self-hosted Whisper server. Works in Firefox and offline networks.',
+  },
+];
+
+// Minimal shape of the (partly vendor-prefixed) Web Speech API, which lib.dom does not declare
+interface RecognitionResultList {
+  length: number;
+  [index: number]: { isFinal: boolean; 0: { transcript: string } };
+}
+
+interface Recognition {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  maxAlternatives: number;
+  onresult: ((event: { resultIndex: number; results: RecognitionResultList }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type RecognitionConstructor = new () => Recognition;
+
+function recognitionConstructor(): RecognitionConstructor | undefined {
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: RecognitionConstructor;
+    webkitSpeechRecognition?: RecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition;
+}
+
+class WebSpeechProvider implements SpeechToTextProvider {
+  readonly id = 'webspeech';
+  private recognition: Recognition | null = null;
+  private handlers: SpeechToTextHandlers | null = null;
+  private interim = '';
+
+  isSupported(): boolean {
+    return Boolean(recognitionConstructor());
+  }
+
+  async start(handlers: SpeechToTextHandlers): Promise<void> {
+    const Ctor = recognitionConstructor();
+    if (!Ctor) throw new Error('Speech recognition is not supported in this browser.');
+
+    const recognition = new Ctor();
+    this.recognition = recognition;
+    this.handlers = handlers;
+    this.interim = '';
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = navigator.language || 'en-US';
+    recognition.maxAlternatives = 1;
+
+    recognition.onresult = event => {
+      handlers.onSpeech?.();
+      let finalTranscript = '';
+      let interimTranscript = '';
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const transcript = event.results[i][0].transcript;
+        if (event.results[i].isFinal) {
+          finalTranscript += transcript;
+        } else {
+          interimTranscript += transcript;
+        }
+      }
+      this.interim = finalTranscript ? '' : interimTranscript;
+      if (finalTranscript) {
+        handlers.onFinal(finalTranscript);
+      } else {
+        handlers.onInterim(interimTranscript);
+      }
+    };
+
+    recognition.onerror = event => {
+      if (event.error !== 'no-speech' && event.error !== 'aborted') {
+        handlers.onError(`Speech recognition error: ${event.error}`);
+      }
+    };
+
+    recognition.onend = () => {
+      if (this.recognition === recognition) this.recognition = null;
+      handlers.onEnd();
+    };
+
+    recognition.start();
+  }
+
+  stop(): void {
+    const recognition = this.recognition;
+    if (!recognition) return;
+    // Commit the words still in flight; results arriving after stop() would repeat them
+    recognition.onresult = null;
+    if (this.interim.trim()) this.handlers?.onFinal(this.interim);
+    this.interim = '';
+    try { recognition.stop(); } catch { /* already stopped */ }
+  }
+
+  abort(): void {
+    const recognition = this.recognition;
+    if (!recognition) return;
+    recognition.onresult = null;
+    recognition.onerror = null;
+    this.interim = '';
+    try { recognition.abort(); } catch { /* already stopped */ }
+  }
+}
+
+// Containers the transcription servers we target accept, in order of preference
+const RECORDING_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+function recordingFilename(mimeType: string): string {
+  const extension = mimeType.split(';')[0].split('/')[1] || 'webm';
+  return `speech.${extension === 'mp4' ? 'm4a' : extension}`;
+}
+
+// Microphone level (RMS of the waveform, 0–1) treated as speech rather than room noise
+const SPEECH_LEVEL = 0.03;
+
+/**
+ * Calls onSpeech while the microphone level is above SPEECH_LEVEL, standing in
+ * for interim results, which recordings don't have. Returns a stop function.
+ */
+function watchSpeech(stream: MediaStream, onSpeech: () => void): () => void {
+  if (typeof AudioContext === 'undefined') return () => undefined;
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 512;
+  context.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Uint8Array(analyser.fftSize);
+
+  const timer = window.setInterval(() => {
+    analyser.getByteTimeDomainData(samples);
+    let sum = 0;
+    for (const sample of samples) {
+      const value = (sample - 128) / 128;
+      sum += value * value;
+    }
+    if (Math.sqrt(sum / samples.length) > SPEECH_LEVEL) onSpeech();
+  }, 100);
+
+  return () => {
+    window.clearInterval(timer);
+    context.close().catch(() => undefined);
+  };
+}
+
+/**
+ * Records with MediaRecorder and transcribes the whole clip once recording
+ * stops, so there is no interim text.
+ */
+class RecorderProvider implements SpeechToTextProvider {
+  readonly id = 'recorder';
+  private recorder: MediaRecorder | null = null;
+  private controller: AbortController | null = null;
+  private endpoint: string;
+
+  constructor(endpoint: string) {
+    this.endpoint = endpoint.trim();
+  }
+
+  isSupported(): boolean {
+    return Boolean(this.endpoint)
+      && typeof MediaRecorder !== 'undefined'
+      && Boolean(navigator.mediaDevices?.getUserMedia);
+  }
+
+  async start(handlers: SpeechToTextHandlers): Promise<void> {
+    if (!this.endpoint) throw new Error('No transcription endpoint is configured.');
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const mimeType = RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const controller = new AbortController();
+    const chunks: Blob[] = [];
+    const stopWatching = handlers.onSpeech ? watchSpeech(stream, handlers.onSpeech) : () => undefined;
+    this.recorder = recorder;
+    this.controller = controller;
+
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    recorder.onstop = async () => {
+      stopWatching();
+      stream.getTracks().forEach(track => track.stop());
+      if (this.recorder === recorder) this.recorder = null;
+      try {
+        if (controller.signal.aborted || chunks.length === 0) return;
+        handlers.onTranscribing?.();
+        const type = recorder.mimeType || chunks[0].type;
+        const text = await api.transcribeAudio(
+          this.endpoint,
+          new Blob(chunks, { type }),
+          recordingFilename(type),
+          { signal: controller.signal }
+        );
+        if (text) handlers.onFinal(text);
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          handlers.onError(`Transcription failed: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      } finally {
+        if (this.controller === controller) this.controller = null;
+        handlers.onEnd();
+      }
+    };
+
+    recorder.start();
+  }
+
+  stop(): void {
+    if (this.recorder?.state === 'recording') this.recorder.stop();
+  }
+
+  abort(): void {
+    this.controller?.abort();
+    this.stop();
+  }
+}
+
+export function createSpeechToTextProvider(settings: VoiceSettings): SpeechToTextProvider {
+  return settings.sttProvider === 'recorder'
+    ? new RecorderProvider(settings.transcriptionEndpoint)
+    : new WebSpeechProvider();
+}
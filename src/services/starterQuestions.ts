@@ -0,0 +1,77 @@
+import { STARTER_QUESTIONS_URL } from '../config';
+
+// A welcome-screen card and the example questions it opens
+export interface StarterCategory {
+  id: string;
+  title: string;
+  description: string;
+  questions: string[];
+}
+
+// Shown (without questions) when the questions file can't be loaded
+const FALLBACK_CATEGORIES: StarterCategory[] = [
+  {
+    id: 'query',
+    title: 'Query Database',
+    description: 'Ask questions about albums, artists, customers, and sales data',
+    questions: [],
+  },
+  {
+    id: 'sales',
+    title: 'Sales Analytics',
+    description: 'Get insights into sales trends and customer purchases',
+    questions: [],
+  },
+  {
+    id: 'insights',
+    title: 'Data Insights',
+    description: 'Explore tracks, playlists, and comprehensive data analysis',
+    questions: [],
+  },
+];
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Validate the questions file (`{"categories": [{id, title, description,
+ * questions: [...]}]}`), dropping malformed categories and questions.
+ */
+export function parseStarterQuestions(data: unknown): StarterCategory[] {
+  const categories = (data as { categories?: unknown })?.categories;
+  if (!Array.isArray(categories)) return [];
+  return categories
+    .filter(category => isString(category?.title))
+    .map((category, index) => ({
+      id: isString(category.id) ? category.id : `category-${index}`,
+      title: category.title.trim(),
+      description: isString(category.description) ? category.description.trim() : '',
+      questions: Array.isArray(category.questions)
+        ? category.questions.filter(isString).map((q: string) => q.trim())
+        : [],
+    }));
+}
+
+let loading: Promise<StarterCategory[]> | null = null;
+
+// Load the starter questions once per session
+export function loadStarterQuestions(): Promise<StarterCategory[]> {
+  if (!loading) {
+    loading = fetch(STARTER_QUESTIONS_URL)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.json();
+      })
+      .then(data => {
+        const categories = parseStarterQuestions(data);
+        return categories.length > 0 ? categories : FALLBACK_CATEGORIES;
+      })
+      .catch(err => {
+        console.warn(`Failed to load starter questions from ${STARTER_QUESTIONS_URL}:`, err);
+        loading = null;
+        return FALLBACK_CATEGORIES;
+      });
+  }
+  return loading;
+}
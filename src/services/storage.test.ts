@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Message } from '../types/api';
+import type { StorageBackend, StoredThread } from '../types/storage';
+import { MemoryBackend } from '../test/memoryBackend';
+import { StorageService } from './storage';
+import type { OutboxEntry, StorageEvictedDetail } from './storage';
+
+const CAPACITY = 10_000;
+
+// One message of about `bytes` bytes once serialized
+function history(threadId: string, bytes: number): Message[] {
+  return [{
+    id: `${threadId}-1`,
+    role: 'assistant',
+    content: 'x'.repeat(bytes),
+    timestamp: '2026-01-01T00:00:00.000Z',
+  }];
+}
+
+function thread(threadId: string, pinned = false): StoredThread {
+  return {
+    thread_id: threadId,
+    created_at: '2026-01-01T00:00:00.000Z',
+    last_activity: null,
+    title: threadId,
+    message_count: 1,
+    pinned,
+  };
+}
+
+function outboxEntry(threadId: string): OutboxEntry {
+  return {
+    id: `${threadId}-queued`,
+    threadId,
+    content: 'queued question',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    attempts: 0,
+    nextAttemptAt: null,
+    lastError: null,
+    status: 'pending',
+  };
+}
+
+// Cached threads, opened in the order given (the first is least recently used)
+async function seed(backend: MemoryBackend, caches: Record<string, number>): Promise<void> {
+  const access: Record<string, string> = {};
+  Object.entries(caches).forEach(([threadId], index) => {
+    access[threadId] = new Date(Date.UTC(2026, 0, 1, index)).toISOString();
+  });
+  for (const [threadId, bytes] of Object.entries(caches)) {
+    await backend.saveMessages(threadId, history(threadId, bytes));
+  }
+  await backend.saveThreads(Object.keys(caches).map(threadId => thread(threadId)));
+  await backend.setValue('thread_access', access);
+}
+
+const BACKENDS: [string, StorageBackend['name'], number][] = [
+  ['IndexedDB reporting the origin quota', 'indexeddb', 10 * 1024 ** 3],
+  ['IndexedDB without a quota estimate', 'indexeddb', 0],
+  ['localStorage', 'localstorage', CAPACITY],
+];
+
+describe('StorageService eviction on quota errors', () => {
+  let evicted: string[][];
+
+  beforeEach(() => {
+    evicted = [];
+    const target = new EventTarget();
+    target.addEventListener('storageEvicted', event => {
+      evicted.push((event as CustomEvent<StorageEvictedDetail>).detail.threadIds);
+    });
+    vi.stubGlobal('window', target);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it.each(BACKENDS)('%s: evicts the least recently used cache and retries the write', async (_, name, quota) => {
+    const backend = new MemoryBackend(name, { reportedQuota: quota, capacity: CAPACITY });
+    await seed(backend, { a: 3000, b: 3000 });
+    const service = new StorageService(async () => backend);
+
+    await service.saveMessages('c', history('c', 4500));
+
+    expect(await backend.getMessageThreadIds()).toEqual(['b', 'c']);
+    expect(evicted).toEqual([['a']]);
+  });
+
+  it.each(BACKENDS)('%s: never evicts pinned threads or threads with queued messages', async (_, name, quota) => {
+    const backend = new MemoryBackend(name, { reportedQuota: quota, capacity: CAPACITY });
+    await seed(backend, { a: 3000, b: 3000 });
+    await backend.saveThreads([thread('a', true), thread('b')]);
+    await backend.setValue('outbox', [outboxEntry('b')]);
+    const service = new StorageService(async () => backend);
+
+    await service.saveMessages('c', history('c', 4500));
+
+    expect(await backend.getMessageThreadIds()).toEqual(['a', 'b']);
+    expect(evicted).toEqual([]);
+  });
+
+  it.each(BACKENDS.filter(([, name]) => name === 'indexeddb'))(
+    '%s: keeps evicting until the write fits',
+    async (_, name, quota) => {
+      const backend = new MemoryBackend(name, { reportedQuota: quota, capacity: CAPACITY });
+      await seed(backend, { a: 2000, b: 2000, c: 2000 });
+      const service = new StorageService(async () => backend);
+
+      await service.addMessage('d', history('d', 7000)[0]);
+
+      expect(await backend.getMessageThreadIds()).toEqual(['c', 'd']);
+      expect(evicted).toEqual([['a'], ['b']]);
+    }
+  );
+});
@@ -1,73 +1,341 @@
-import type { ThreadInfo, Message } from '../types/api';
-
-const STORAGE_KEYS = {
-  THREADS: 'chinook_threads',
-  MESSAGES: 'chinook_messages_',
-  LAST_SYNC: 'chinook_last_sync',
+import type { ThreadInfo, Message, FeedbackRating, FeedbackCategory } from '../types/api';
+import type { StorageBackend, StoredThread } from '../types/storage';
+import { LocalStorageBackend } from './localStorageBackend';
+import { IndexedDBBackend } from './indexedDBBackend';
+import { createClientId } from '../utils/ids';
+import { STORAGE_EVICTION_THRESHOLD, STORAGE_EVICTION_TARGET } from '../config';
+
+// Keys for small values kept alongside threads and messages
+const VALUE_KEYS = {
+  LAST_SYNC: 'last_sync',
+  OUTBOX: 'outbox',
+  MIGRATED: 'migrated_from_localstorage',
+  THREAD_ACCESS: 'thread_access',
+  BRANCHES: 'thread_branches',
+  VARIANTS: 'answer_variants',
+  FEEDBACK: 'answer_feedback',
 } as const;
 
-interface StoredThread extends ThreadInfo {
-  lastSynced?: string;
+// Client-side thread fields the server doesn't know about; kept when the
+// thread list is replaced with the server's copy
+const LOCAL_THREAD_FIELDS = ['user_title', 'pinned', 'archived', 'imported_from'] as const;
+
+// Threads created while offline use this prefix until the server assigns an id
+const LOCAL_THREAD_PREFIX = 'local-';
+
+export function isLocalThreadId(threadId: string): boolean {
+  return threadId.startsWith(LOCAL_THREAD_PREFIX);
+}
+
+// A message written while offline, waiting to be sent
+export interface OutboxEntry {
+  id: string; // client_id of the queued user message
+  threadId: string;
+  content: string;
+  timestamp: string;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  // failed: retries exhausted, waiting for the user to retry or discard
+  status: 'pending' | 'failed';
+}
+
+// A thread forked from another by editing one of its questions
+export interface ThreadBranch {
+  threadId: string;
+  parentThreadId: string;
+  // Original thread of the family, shared by branches of branches
+  rootThreadId: string;
+  // Questions kept from the parent before the edited one
+  forkTurn: number;
+  // The edited question the branch continues with
+  question: string;
+  createdAt: string;
+}
+
+// Alternative answers to one question, produced by "Regenerate"
+export interface AnswerVariants {
+  threadId: string;
+  question: string;
+  // Assistant messages in the order they were generated, each with its own debug_info
+  variants: Message[];
+  // Index of the variant shown in the conversation
+  selected: number;
+}
+
+// The user's rating of an assistant answer. Keeps a copy of the question and
+// answer, so the feedback log outlives cache eviction and deleted threads.
+export interface MessageFeedback {
+  threadId: string;
+  // getMessageKey() of the rated answer
+  messageKey: string;
+  rating: FeedbackRating;
+  category: FeedbackCategory | null;
+  note: string;
+  question: string | null;
+  answer: Message;
+  createdAt: string;
+  updatedAt: string;
+  // Accepted by the feedback endpoint
+  posted: boolean;
+}
+
+// Cached messages of one thread, for quota management and the storage panel
+export interface ThreadCacheStats {
+  threadId: string;
+  title: string | null;
+  bytes: number;
+  messageCount: number;
+  lastAccessed: string | null;
+  pinned: boolean;
+  // Has messages waiting in the outbox; never evicted
+  hasPending: boolean;
+}
+
+// Emitted after a write commits, so derived data (e.g. the search index) can
+// update incrementally instead of rescanning the cache
+export type StorageChange =
+  | { type: 'messagesAdded'; threadId: string; messages: Message[] }
+  // The thread's cached history is now exactly `messages` (empty when removed)
+  | { type: 'messagesReplaced'; threadId: string; messages: Message[] }
+  | { type: 'threadsChanged' }
+  | { type: 'cleared' };
+
+export type StorageChangeListener = (change: StorageChange) => void;
+
+// Where a page of server messages sits in the thread's history
+export interface MessagePageBounds {
+  // The page starts at the first message of the thread
+  isOldest?: boolean;
+  // The page ends at the latest message of the thread
+  isNewest?: boolean;
+}
+
+export interface StorageEvictedDetail {
+  threadIds: string[];
+}
+
+function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
+
+// Same message by client/server id, or by content+timestamp+role otherwise
+function isSameMessage(a: Message, b: Message): boolean {
+  if (a.client_id && b.client_id) {
+    return a.client_id === b.client_id;
+  }
+  if (a.id && b.id) {
+    return a.id === b.id;
+  }
+  return a.content === b.content &&
+    a.timestamp === b.timestamp &&
+    a.role === b.role;
 }
 
-interface StoredMessages {
-  messages: Message[];
-  lastSynced?: string;
+function messageTime(message: Message): number {
+  return message.timestamp ? new Date(message.timestamp).getTime() : 0;
 }
 
-class StorageService {
-  private isAvailable(): boolean {
+function sortByTimestamp(messages: Message[]): Message[] {
+  return messages.sort((a, b) => messageTime(a) - messageTime(b));
+}
+
+function activityTime(thread: ThreadInfo): number {
+  return thread.last_activity ? new Date(thread.last_activity).getTime() : 0;
+}
+
+function stripSyncInfo(threads: StoredThread[]): ThreadInfo[] {
+  return threads.map(thread => {
+    const info: StoredThread = { ...thread };
+    delete info.lastSynced;
+    return info;
+  });
+}
+
+/**
+ * Copy threads, messages and the outbox from the old localStorage layout
+ * into IndexedDB once, then free the localStorage space.
+ */
+async function migrateFromLocalStorage(target: StorageBackend): Promise<void> {
+  if (await target.getValue<boolean>(VALUE_KEYS.MIGRATED)) return;
+
+  const legacy = new LocalStorageBackend();
+  if (legacy.isAvailable()) {
+    const threads = await legacy.getThreads();
+    if (threads.length > 0) {
+      await target.saveThreads(threads);
+    }
+    for (const threadId of await legacy.getMessageThreadIds()) {
+      await target.saveMessages(threadId, await legacy.getMessages(threadId));
+    }
+    const outbox = await legacy.getValue<OutboxEntry[]>(VALUE_KEYS.OUTBOX);
+    if (outbox) {
+      await target.setValue(VALUE_KEYS.OUTBOX, outbox);
+    }
+    await legacy.clear();
+  }
+
+  await target.setValue(VALUE_KEYS.MIGRATED, true);
+}
+
+// Prefer IndexedDB; fall back to localStorage when it's missing or can't be opened
+async function openBackend(): Promise<StorageBackend | null> {
+  if (typeof indexedDB !== 'undefined') {
     try {
-      const test = '__storage_test__';
-      localStorage.setItem(test, test);
-      localStorage.removeItem(test);
-      return true;
-    } catch {
-      return false;
+      const backend = await IndexedDBBackend.open();
+      await migrateFromLocalStorage(backend);
+      return backend;
+    } catch (error) {
+      console.warn('IndexedDB unavailable, falling back to localStorage:', error);
     }
   }
 
+  const fallback = new LocalStorageBackend();
+  return fallback.isAvailable() ? fallback : null;
+}
+
+export class StorageService {
+  // Opens the backend on first use; tests pass an in-memory one
+  private open: () => Promise<StorageBackend | null>;
+  private backendPromise: Promise<StorageBackend | null> | null = null;
+  // Writes run one at a time so read-modify-write updates don't interleave
+  private writeQueue: Promise<unknown> = Promise.resolve();
+  // Thread on screen; its cache is never evicted
+  private activeThreadId: string | null = null;
+  private listeners = new Set<StorageChangeListener>();
+
+  constructor(open: () => Promise<StorageBackend | null> = openBackend) {
+    this.open = open;
+  }
+
+  private getBackend(): Promise<StorageBackend | null> {
+    if (!this.backendPromise) {
+      this.backendPromise = this.open();
+    }
+    return this.backendPromise;
+  }
+
   private handleStorageError(error: Error, operation: string) {
     console.warn(`Storage ${operation} failed:`, error);
     // Don't throw - gracefully degrade
   }
 
-  // Thread Management
-  saveThreads(threads: ThreadInfo[]): void {
-    if (!this.isAvailable()) return;
-
+  private async read<T>(
+    operation: string,
+    fallback: T,
+    fn: (backend: StorageBackend) => Promise<T>
+  ): Promise<T> {
     try {
-      const storedThreads: StoredThread[] = threads.map(thread => ({
-        ...thread,
-        lastSynced: new Date().toISOString(),
-      }));
-      localStorage.setItem(STORAGE_KEYS.THREADS, JSON.stringify(storedThreads));
-      localStorage.setItem(STORAGE_KEYS.LAST_SYNC, new Date().toISOString());
+      const backend = await this.getBackend();
+      if (!backend) return fallback;
+      return await fn(backend);
     } catch (error) {
-      this.handleStorageError(error as Error, 'saveThreads');
+      this.handleStorageError(error as Error, operation);
+      return fallback;
     }
   }
 
-  getThreads(): ThreadInfo[] {
-    if (!this.isAvailable()) return [];
+  private write<T>(
+    operation: string,
+    fallback: T,
+    fn: (backend: StorageBackend) => Promise<T>
+  ): Promise<T> {
+    const result = this.writeQueue.then(() =>
+      this.read(operation, fallback, async backend => {
+        // Out of space: free least-recently-used caches until the write fits
+        // or nothing is left to evict. IndexedDB reports a quota far above
+        // the eviction threshold, so this is where its caches get evicted.
+        while (true) {
+          try {
+            return await fn(backend);
+          } catch (error) {
+            if (!isQuotaError(error) || (await this.evict(backend, true)) === 0) {
+              throw error;
+            }
+          }
+        }
+      })
+    );
+    this.writeQueue = result;
+    return result;
+  }
 
-    try {
-      const stored = localStorage.getItem(STORAGE_KEYS.THREADS);
-      if (!stored) return [];
+  private emit(change: StorageChange): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (error) {
+        console.warn('Storage change listener failed:', error);
+      }
+    });
+  }
 
-      const storedThreads: StoredThread[] = JSON.parse(stored);
-      return storedThreads.map(({ lastSynced, ...thread }) => thread);
-    } catch (error) {
-      this.handleStorageError(error as Error, 'getThreads');
-      return [];
-    }
+  // Evict old caches if usage passed the threshold (queued after a write)
+  private enforceQuota(): void {
+    this.write('enforceQuota', 0, backend => this.evict(backend));
+  }
+
+  // Subscribe to committed writes; returns an unsubscribe function
+  onChange(listener: StorageChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
-  addOrUpdateThread(thread: ThreadInfo): void {
-    if (!this.isAvailable()) return;
+  // Which backend is in use ('indexeddb', 'localstorage', or null if none)
+  async getBackendName(): Promise<StorageBackend['name'] | null> {
+    const backend = await this.getBackend();
+    return backend?.name ?? null;
+  }
 
-    try {
-      const threads = this.getThreads();
+  // Thread Management
+  saveThreads(threads: ThreadInfo[]): Promise<void> {
+    return this.write('saveThreads', undefined, async backend => {
+      await this.storeThreads(backend, threads);
+    });
+  }
+
+  getThreads(): Promise<ThreadInfo[]> {
+    return this.read('getThreads', [], async backend =>
+      stripSyncInfo(await backend.getThreads())
+    );
+  }
+
+  /**
+   * Merge a page of the server's thread list (newest activity first) into the
+   * cache. Cached threads in the page's activity range that the page doesn't
+   * contain were deleted on the server and are dropped; threads outside the
+   * range are kept until their page is loaded. Local threads stay on top.
+   * Returns the merged list.
+   */
+  mergeThreadPage(page: ThreadInfo[], offset: number, total: number): Promise<ThreadInfo[]> {
+    return this.write('mergeThreadPage', page, async backend => {
+      const times = page.map(activityTime);
+      const newest = offset === 0 ? Infinity : Math.max(-Infinity, ...times);
+      const oldest = offset + page.length >= total ? -Infinity : Math.min(Infinity, ...times);
+      const pageIds = new Set(page.map(t => t.thread_id));
+
+      const kept = stripSyncInfo(await backend.getThreads()).filter(t => {
+        if (pageIds.has(t.thread_id)) return false;
+        if (isLocalThreadId(t.thread_id)) return true;
+        const time = activityTime(t);
+        return time > newest || time < oldest;
+      });
+
+      const local = kept.filter(t => isLocalThreadId(t.thread_id));
+      const server = [...page, ...kept.filter(t => !isLocalThreadId(t.thread_id))]
+        .sort((a, b) => activityTime(b) - activityTime(a));
+      const merged = [...local, ...server];
+      await this.storeThreads(backend, merged);
+      return stripSyncInfo(await backend.getThreads());
+    });
+  }
+
+  addOrUpdateThread(thread: ThreadInfo): Promise<void> {
+    return this.write('addOrUpdateThread', undefined, async backend => {
+      const threads = stripSyncInfo(await backend.getThreads());
       const index = threads.findIndex(t => t.thread_id === thread.thread_id);
 
       if (index >= 0) {
@@ -76,195 +344,557 @@ class StorageService {
         threads.unshift(thread); // Add to beginning
       }
 
-      this.saveThreads(threads);
-    } catch (error) {
-      this.handleStorageError(error as Error, 'addOrUpdateThread');
-    }
+      await this.storeThreads(backend, threads);
+    });
   }
 
-  removeThread(threadId: string): void {
-    if (!this.isAvailable()) return;
-
-    try {
-      const threads = this.getThreads();
-      const filtered = threads.filter(t => t.thread_id !== threadId);
-      this.saveThreads(filtered);
-      
-      // Also remove messages for this thread
-      this.removeMessages(threadId);
-    } catch (error) {
-      this.handleStorageError(error as Error, 'removeThread');
-    }
+  removeThread(threadId: string): Promise<void> {
+    return this.write('removeThread', undefined, async backend => {
+      const threads = await backend.getThreads();
+      await backend.saveThreads(threads.filter(t => t.thread_id !== threadId));
+
+      // Also remove messages and queued sends for this thread
+      await backend.removeMessages(threadId);
+      const outbox = await backend.getValue<OutboxEntry[]>(VALUE_KEYS.OUTBOX) ?? [];
+      await backend.setValue(
+        VALUE_KEYS.OUTBOX,
+        outbox.filter(entry => entry.threadId !== threadId)
+      );
+      // Branches of a deleted thread stay in the family through rootThreadId
+      const branches = await backend.getValue<ThreadBranch[]>(VALUE_KEYS.BRANCHES) ?? [];
+      await backend.setValue(
+        VALUE_KEYS.BRANCHES,
+        branches.filter(branch => branch.threadId !== threadId)
+      );
+      const variants = await backend.getValue<AnswerVariants[]>(VALUE_KEYS.VARIANTS) ?? [];
+      await backend.setValue(
+        VALUE_KEYS.VARIANTS,
+        variants.filter(group => group.threadId !== threadId)
+      );
+      this.emit({ type: 'threadsChanged' });
+      this.emit({ type: 'messagesReplaced', threadId, messages: [] });
+    });
   }
 
-  getThread(threadId: string): ThreadInfo | null {
-    const threads = this.getThreads();
+  async getThread(threadId: string): Promise<ThreadInfo | null> {
+    const threads = await this.getThreads();
     return threads.find(t => t.thread_id === threadId) || null;
   }
 
-  // Message Management
-  saveMessages(threadId: string, messages: Message[]): void {
-    if (!this.isAvailable()) return;
+  // Change fields of a cached thread (title, pinned, archived); resolves to the updated thread
+  updateThread(threadId: string, changes: Partial<ThreadInfo>): Promise<ThreadInfo | null> {
+    return this.write('updateThread', null, async backend => {
+      const threads = await backend.getThreads();
+      const index = threads.findIndex(t => t.thread_id === threadId);
+      if (index < 0) return null;
+      threads[index] = { ...threads[index], ...changes };
+      await backend.saveThreads(threads);
+      this.emit({ type: 'threadsChanged' });
+      return stripSyncInfo([threads[index]])[0];
+    });
+  }
 
-    try {
-      const stored: StoredMessages = {
-        messages,
-        lastSynced: new Date().toISOString(),
-      };
-      localStorage.setItem(
-        `${STORAGE_KEYS.MESSAGES}${threadId}`,
-        JSON.stringify(stored)
+  // Create a thread that only exists locally (used while the backend is down)
+  async createLocalThread(): Promise<ThreadInfo> {
+    const now = new Date().toISOString();
+    const thread: ThreadInfo = {
+      thread_id: `${LOCAL_THREAD_PREFIX}${createClientId()}`,
+      created_at: now,
+      last_activity: now,
+      title: null,
+      message_count: 0,
+    };
+    await this.addOrUpdateThread(thread);
+    return thread;
+  }
+
+  // Swap a local thread id for the id the server assigned, keeping its messages and outbox entries
+  reconcileThreadId(localId: string, serverThread: ThreadInfo): Promise<void> {
+    return this.write('reconcileThreadId', undefined, async backend => {
+      const serverId = serverThread.thread_id;
+      const stored = stripSyncInfo(await backend.getThreads());
+      const localThread = stored.find(t => t.thread_id === localId);
+      const threads = stored.filter(
+        t => t.thread_id !== localId && t.thread_id !== serverId
       );
-    } catch (error) {
-      this.handleStorageError(error as Error, 'saveMessages');
-    }
+      threads.unshift({
+        ...serverThread,
+        title: localThread?.title ?? serverThread.title,
+        user_title: localThread?.user_title,
+        pinned: localThread?.pinned,
+        archived: localThread?.archived,
+        imported_from: localThread?.imported_from,
+      });
+      await this.storeThreads(backend, threads);
+
+      const messages = await backend.getMessages(localId);
+      if (messages.length > 0) {
+        await backend.saveMessages(serverId, messages);
+        this.emit({ type: 'messagesReplaced', threadId: serverId, messages });
+      }
+      await backend.removeMessages(localId);
+      this.emit({ type: 'messagesReplaced', threadId: localId, messages: [] });
+
+      const outbox = await backend.getValue<OutboxEntry[]>(VALUE_KEYS.OUTBOX) ?? [];
+      await backend.setValue(
+        VALUE_KEYS.OUTBOX,
+        outbox.map(entry => (entry.threadId === localId ? { ...entry, threadId: serverId } : entry))
+      );
+
+      const swap = (id: string) => (id === localId ? serverId : id);
+      const branches = await backend.getValue<ThreadBranch[]>(VALUE_KEYS.BRANCHES) ?? [];
+      await backend.setValue(VALUE_KEYS.BRANCHES, branches.map(branch => ({
+        ...branch,
+        threadId: swap(branch.threadId),
+        parentThreadId: swap(branch.parentThreadId),
+        rootThreadId: swap(branch.rootThreadId),
+      })));
+      const feedback = await backend.getValue<MessageFeedback[]>(VALUE_KEYS.FEEDBACK) ?? [];
+      await backend.setValue(VALUE_KEYS.FEEDBACK, feedback.map(entry => ({
+        ...entry,
+        threadId: swap(entry.threadId),
+      })));
+    });
   }
 
-  getMessages(threadId: string): Message[] {
-    if (!this.isAvailable()) return [];
+  // Record that a thread was opened; the most recent one is protected from eviction
+  touchThread(threadId: string): Promise<void> {
+    this.activeThreadId = threadId;
+    return this.write('touchThread', undefined, async backend => {
+      const access = await backend.getValue<Record<string, string>>(VALUE_KEYS.THREAD_ACCESS) ?? {};
+      access[threadId] = new Date().toISOString();
+      await backend.setValue(VALUE_KEYS.THREAD_ACCESS, access);
+    });
+  }
 
-    try {
-      const stored = localStorage.getItem(`${STORAGE_KEYS.MESSAGES}${threadId}`);
-      if (!stored) return [];
+  // Message Management
+  saveMessages(threadId: string, messages: Message[]): Promise<void> {
+    const result = this.write('saveMessages', undefined, async backend => {
+      await backend.saveMessages(threadId, messages);
+      this.emit({ type: 'messagesReplaced', threadId, messages });
+    });
+    this.enforceQuota();
+    return result;
+  }
 
-      const data: StoredMessages = JSON.parse(stored);
-      return data.messages || [];
-    } catch (error) {
-      this.handleStorageError(error as Error, 'getMessages');
-      return [];
-    }
+  getMessages(threadId: string): Promise<Message[]> {
+    return this.read('getMessages', [], backend => backend.getMessages(threadId));
   }
 
-  addMessage(threadId: string, message: Message): void {
-    if (!this.isAvailable()) return;
+  // Threads that have messages in the cache
+  getCachedThreadIds(): Promise<string[]> {
+    return this.read('getCachedThreadIds', [], backend => backend.getMessageThreadIds());
+  }
+
+  /**
+   * Questions the user asked across cached threads, newest first, without
+   * repeats (compared case-insensitively) or unsent messages
+   */
+  getRecentQuestions(limit: number): Promise<string[]> {
+    return this.read('getRecentQuestions', [], async backend => {
+      const asked: Message[] = [];
+      for (const threadId of await backend.getMessageThreadIds()) {
+        const messages = await backend.getMessages(threadId);
+        asked.push(...messages.filter(m => m.role === 'user' && !m.status && m.content.trim()));
+      }
+      asked.sort((a, b) => messageTime(b) - messageTime(a));
+
+      const seen = new Set<string>();
+      const questions: string[] = [];
+      for (const message of asked) {
+        const question = message.content.trim();
+        const key = question.toLowerCase();
+        if (seen.has(key)) continue;
+        seen.add(key);
+        questions.push(question);
+        if (questions.length >= limit) break;
+      }
+      return questions;
+    });
+  }
+
+  addMessage(threadId: string, message: Message): Promise<void> {
+    return this.write('addMessage', undefined, async backend => {
+      const messages = await backend.getMessages(threadId);
 
-    try {
-      const messages = this.getMessages(threadId);
-      
       // Check if message already exists (by id or content+timestamp)
-      const exists = messages.some(
-        m => m.id === message.id || 
-        (m.content === message.content && 
-         m.timestamp === message.timestamp && 
-         m.role === message.role)
-      );
+      const exists = messages.some(m => isSameMessage(m, message));
 
       if (!exists) {
-        messages.push(message);
-        this.saveMessages(threadId, messages);
+        await backend.appendMessages(threadId, [message]);
+        this.emit({ type: 'messagesAdded', threadId, messages: [message] });
       }
-    } catch (error) {
-      this.handleStorageError(error as Error, 'addMessage');
-    }
+    }).finally(() => this.enforceQuota());
   }
 
-  addMessages(threadId: string, newMessages: Message[]): void {
-    if (!this.isAvailable()) return;
+  addMessages(threadId: string, newMessages: Message[]): Promise<void> {
+    return this.write('addMessages', undefined, async backend => {
+      const existingMessages = await backend.getMessages(threadId);
 
-    try {
-      const existingMessages = this.getMessages(threadId);
-      const existingIds = new Set(existingMessages.map(m => m.id).filter(Boolean));
-      
       // Merge messages, avoiding duplicates
       const merged = [...existingMessages];
-      
+      const added: Message[] = [];
       newMessages.forEach(msg => {
-        if (!msg.id || !existingIds.has(msg.id)) {
-          // Check for duplicate by content and timestamp
-          const isDuplicate = existingMessages.some(
-            m => m.content === msg.content && 
-            m.timestamp === msg.timestamp && 
-            m.role === msg.role
-          );
-          
-          if (!isDuplicate) {
-            merged.push(msg);
-            if (msg.id) {
-              existingIds.add(msg.id);
-            }
-          }
+        if (!merged.some(m => isSameMessage(m, msg))) {
+          merged.push(msg);
+          added.push(msg);
         }
       });
 
-      // Sort by timestamp
-      merged.sort((a, b) => {
-        const timeA = a.timestamp ? new Date(a.timestamp).getTime() : 0;
-        const timeB = b.timestamp ? new Date(b.timestamp).getTime() : 0;
-        return timeA - timeB;
+      if (added.length > 0) {
+        await backend.saveMessages(threadId, sortByTimestamp(merged));
+        this.emit({ type: 'messagesAdded', threadId, messages: added });
+      }
+    }).finally(() => this.enforceQuota());
+  }
+
+  updateMessage(threadId: string, message: Message, changes: Partial<Message>): Promise<void> {
+    return this.write('updateMessage', undefined, async backend => {
+      const messages = await backend.getMessages(threadId);
+      const index = messages.findIndex(m => isSameMessage(m, message));
+      if (index >= 0) {
+        messages[index] = { ...messages[index], ...changes };
+        await backend.saveMessages(threadId, messages);
+        this.emit({ type: 'messagesReplaced', threadId, messages });
+      }
+    });
+  }
+
+  /**
+   * Merge a page of the server's history into the cache. Cached messages in
+   * the page's time range are replaced by the page; cached messages before or
+   * after it are kept, as are local-only messages (queued or failed sends,
+   * cancelled ones the server never saw, and imported history). By default
+   * the page is taken to be the whole history. Returns the merged cache.
+   */
+  syncMessages(
+    threadId: string,
+    serverMessages: Message[],
+    { isOldest = true, isNewest = true }: MessagePageBounds = {}
+  ): Promise<Message[]> {
+    return this.write('syncMessages', serverMessages, async backend => {
+      const times = serverMessages.map(messageTime);
+      const from = isOldest ? -Infinity : Math.min(Infinity, ...times);
+      const to = isNewest ? Infinity : Math.max(-Infinity, ...times);
+
+      const kept = (await backend.getMessages(threadId)).filter(m => {
+        if (m.status === 'pending' || m.status === 'failed' || m.imported) return true;
+        if (m.status === 'cancelled') {
+          return !serverMessages.some(
+            s => s.role === m.role && s.content === m.content
+          );
+        }
+        const time = messageTime(m);
+        return (time < from || time > to) && !serverMessages.some(s => isSameMessage(s, m));
       });
 
-      this.saveMessages(threadId, merged);
-    } catch (error) {
-      this.handleStorageError(error as Error, 'addMessages');
-    }
+      const merged = sortByTimestamp([...serverMessages, ...kept]);
+      await backend.saveMessages(threadId, merged);
+      this.emit({ type: 'messagesReplaced', threadId, messages: merged });
+      return merged;
+    }).finally(() => this.enforceQuota());
   }
 
-  removeMessages(threadId: string): void {
-    if (!this.isAvailable()) return;
+  removeMessage(threadId: string, message: Message): Promise<void> {
+    return this.write('removeMessage', undefined, async backend => {
+      const messages = (await backend.getMessages(threadId)).filter(m => !isSameMessage(m, message));
+      await backend.saveMessages(threadId, messages);
+      this.emit({ type: 'messagesReplaced', threadId, messages });
+    });
+  }
 
-    try {
-      localStorage.removeItem(`${STORAGE_KEYS.MESSAGES}${threadId}`);
-    } catch (error) {
-      this.handleStorageError(error as Error, 'removeMessages');
-    }
+  removeMessages(threadId: string): Promise<void> {
+    return this.write('removeMessages', undefined, async backend => {
+      await backend.removeMessages(threadId);
+      this.emit({ type: 'messagesReplaced', threadId, messages: [] });
+    });
   }
 
-  // Sync Management
-  getLastSync(): Date | null {
-    if (!this.isAvailable()) return null;
+  // Outbox Management
+  getOutbox(): Promise<OutboxEntry[]> {
+    return this.read('getOutbox', [], async backend =>
+      await backend.getValue<OutboxEntry[]>(VALUE_KEYS.OUTBOX) ?? []
+    );
+  }
 
-    try {
-      const stored = localStorage.getItem(STORAGE_KEYS.LAST_SYNC);
+  saveOutbox(entries: OutboxEntry[]): Promise<void> {
+    return this.write('saveOutbox', undefined, backend =>
+      backend.setValue(VALUE_KEYS.OUTBOX, entries)
+    );
+  }
+
+  addOutboxEntry(entry: OutboxEntry): Promise<void> {
+    return this.updateOutbox('addOutboxEntry', entries => [...entries, entry]);
+  }
+
+  updateOutboxEntry(id: string, changes: Partial<OutboxEntry>): Promise<void> {
+    return this.updateOutbox('updateOutboxEntry', entries =>
+      entries.map(entry => (entry.id === id ? { ...entry, ...changes } : entry))
+    );
+  }
+
+  removeOutboxEntry(id: string): Promise<void> {
+    return this.updateOutbox('removeOutboxEntry', entries =>
+      entries.filter(entry => entry.id !== id)
+    );
+  }
+
+  // Branch Management
+  addBranch(branch: ThreadBranch): Promise<void> {
+    return this.write('addBranch', undefined, async backend => {
+      const branches = await backend.getValue<ThreadBranch[]>(VALUE_KEYS.BRANCHES) ?? [];
+      await backend.setValue(VALUE_KEYS.BRANCHES, [
+        ...branches.filter(b => b.threadId !== branch.threadId),
+        branch,
+      ]);
+    });
+  }
+
+  // The branch record of a thread, or null for threads that weren't forked
+  getBranch(threadId: string): Promise<ThreadBranch | null> {
+    return this.read('getBranch', null, async backend => {
+      const branches = await backend.getValue<ThreadBranch[]>(VALUE_KEYS.BRANCHES) ?? [];
+      return branches.find(branch => branch.threadId === threadId) ?? null;
+    });
+  }
+
+  // All branches forked (directly or not) from the thread's root, oldest first
+  getBranchFamily(threadId: string): Promise<ThreadBranch[]> {
+    return this.read('getBranchFamily', [], async backend => {
+      const branches = await backend.getValue<ThreadBranch[]>(VALUE_KEYS.BRANCHES) ?? [];
+      const rootId = branches.find(b => b.threadId === threadId)?.rootThreadId ?? threadId;
+      return branches
+        .filter(branch => branch.rootThreadId === rootId)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    });
+  }
+
+  // Answer Variants
+  getAnswerVariants(threadId: string): Promise<AnswerVariants[]> {
+    return this.read('getAnswerVariants', [], async backend => {
+      const groups = await backend.getValue<AnswerVariants[]>(VALUE_KEYS.VARIANTS) ?? [];
+      return groups.filter(group => group.threadId === threadId);
+    });
+  }
+
+  /**
+   * Record a regenerated answer to `question`. `original` is the answer that
+   * was regenerated (or any variant of it); the new variant becomes selected.
+   */
+  addAnswerVariant(
+    threadId: string,
+    question: string,
+    original: Message,
+    variant: Message
+  ): Promise<AnswerVariants> {
+    const fallback: AnswerVariants = { threadId, question, variants: [original, variant], selected: 1 };
+    return this.write('addAnswerVariant', fallback, async backend => {
+      const groups = await backend.getValue<AnswerVariants[]>(VALUE_KEYS.VARIANTS) ?? [];
+      const existing = groups.find(group =>
+        group.threadId === threadId && group.variants.some(m => isSameMessage(m, original))
+      );
+      const variants = [...(existing?.variants ?? [original]), variant];
+      const updated: AnswerVariants = { threadId, question, variants, selected: variants.length - 1 };
+      await backend.setValue(VALUE_KEYS.VARIANTS, [
+        ...groups.filter(group => group !== existing),
+        updated,
+      ]);
+      return updated;
+    });
+  }
+
+  // Show another variant of a group (identified by any of its answers)
+  selectAnswerVariant(threadId: string, answer: Message, selected: number): Promise<void> {
+    return this.write('selectAnswerVariant', undefined, async backend => {
+      const groups = await backend.getValue<AnswerVariants[]>(VALUE_KEYS.VARIANTS) ?? [];
+      await backend.setValue(VALUE_KEYS.VARIANTS, groups.map(group =>
+        group.threadId === threadId && group.variants.some(m => isSameMessage(m, answer))
+          ? { ...group, selected: Math.max(0, Math.min(selected, group.variants.length - 1)) }
+          : group
+      ));
+    });
+  }
+
+  // Answer Feedback
+  // All feedback (or one thread's), oldest first
+  getFeedback(threadId?: string): Promise<MessageFeedback[]> {
+    return this.read('getFeedback', [], async backend => {
+      const feedback = await backend.getValue<MessageFeedback[]>(VALUE_KEYS.FEEDBACK) ?? [];
+      return threadId ? feedback.filter(entry => entry.threadId === threadId) : feedback;
+    });
+  }
+
+  // Add or replace the feedback on one answer
+  saveFeedback(feedback: MessageFeedback): Promise<void> {
+    return this.updateFeedback('saveFeedback', entries => [
+      ...entries.filter(e => !(e.threadId === feedback.threadId && e.messageKey === feedback.messageKey)),
+      feedback,
+    ]);
+  }
+
+  removeFeedback(threadId: string, messageKey: string): Promise<void> {
+    return this.updateFeedback('removeFeedback', entries =>
+      entries.filter(e => !(e.threadId === threadId && e.messageKey === messageKey))
+    );
+  }
+
+  // Flag feedback as delivered, unless it was edited since `updatedAt`
+  markFeedbackPosted(threadId: string, messageKey: string, updatedAt: string): Promise<void> {
+    return this.updateFeedback('markFeedbackPosted', entries => entries.map(e =>
+      e.threadId === threadId && e.messageKey === messageKey && e.updatedAt === updatedAt
+        ? { ...e, posted: true }
+        : e
+    ));
+  }
+
+  // Sync Management
+  getLastSync(): Promise<Date | null> {
+    return this.read('getLastSync', null, async backend => {
+      const stored = await backend.getValue<string>(VALUE_KEYS.LAST_SYNC);
       return stored ? new Date(stored) : null;
-    } catch {
-      return null;
-    }
+    });
   }
 
   // Clear all data (useful for debugging or reset)
-  clearAll(): void {
-    if (!this.isAvailable()) return;
-
-    try {
-      // Remove all message entries
-      const threads = this.getThreads();
-      threads.forEach(thread => {
-        localStorage.removeItem(`${STORAGE_KEYS.MESSAGES}${thread.thread_id}`);
-      });
+  clearAll(): Promise<void> {
+    return this.write('clearAll', undefined, async backend => {
+      // Feedback is an evaluation log, not a cache: it survives a reset
+      const feedback = await backend.getValue<MessageFeedback[]>(VALUE_KEYS.FEEDBACK);
+      await backend.clear();
+      if (feedback) {
+        await backend.setValue(VALUE_KEYS.FEEDBACK, feedback);
+      }
+      // Nothing left to migrate after a reset
+      if (backend.name === 'indexeddb') {
+        await backend.setValue(VALUE_KEYS.MIGRATED, true);
+      }
+      this.emit({ type: 'cleared' });
+    });
+  }
 
-      // Remove threads and sync info
-      localStorage.removeItem(STORAGE_KEYS.THREADS);
-      localStorage.removeItem(STORAGE_KEYS.LAST_SYNC);
-    } catch (error) {
-      this.handleStorageError(error as Error, 'clearAll');
-    }
+  // Per-thread cache sizes, largest first
+  getThreadCacheStats(): Promise<ThreadCacheStats[]> {
+    return this.read('getThreadCacheStats', [], async backend => {
+      const stats = await this.collectCacheStats(backend);
+      return stats.sort((a, b) => b.bytes - a.bytes);
+    });
   }
 
   // Get storage usage info
-  getStorageInfo(): { used: number; available: number; percentage: number } {
-    if (!this.isAvailable()) {
-      return { used: 0, available: 0, percentage: 0 };
-    }
+  getStorageInfo(): Promise<{ used: number; available: number; percentage: number }> {
+    return this.read('getStorageInfo', { used: 0, available: 0, percentage: 0 }, async backend => {
+      const { used, quota } = await backend.getUsage();
+      const available = Math.max(0, quota - used);
+      const percentage = quota > 0 ? (used / quota) * 100 : 0;
+      return { used, available, percentage };
+    });
+  }
 
-    try {
-      let used = 0;
-      for (let key in localStorage) {
-        if (localStorage.hasOwnProperty(key)) {
-          used += localStorage[key].length + key.length;
+  private async storeThreads(backend: StorageBackend, threads: ThreadInfo[]): Promise<void> {
+    const now = new Date().toISOString();
+    const previous = new Map(
+      (await backend.getThreads()).map(thread => [thread.thread_id, thread])
+    );
+    const storedThreads: StoredThread[] = threads.map(thread => {
+      const stored: StoredThread = { ...thread, lastSynced: now };
+      const old = previous.get(thread.thread_id);
+      LOCAL_THREAD_FIELDS.forEach(field => {
+        if (stored[field] === undefined && old?.[field] !== undefined) {
+          Object.assign(stored, { [field]: old[field] });
         }
+      });
+      // A server that doesn't know about renames still sends its own title
+      if (old?.user_title && thread.user_title === undefined) {
+        stored.title = old.title;
       }
-      
-      // Most browsers have ~5-10MB limit
-      const estimatedLimit = 5 * 1024 * 1024; // 5MB
-      const available = Math.max(0, estimatedLimit - used);
-      const percentage = (used / estimatedLimit) * 100;
+      return stored;
+    });
+    await backend.saveThreads(storedThreads);
+    await backend.setValue(VALUE_KEYS.LAST_SYNC, now);
+    this.emit({ type: 'threadsChanged' });
+  }
 
-      return { used, available, percentage };
-    } catch {
-      return { used: 0, available: 0, percentage: 0 };
+  private async collectCacheStats(backend: StorageBackend): Promise<ThreadCacheStats[]> {
+    const threads = new Map(
+      (await backend.getThreads()).map(thread => [thread.thread_id, thread])
+    );
+    const access = await backend.getValue<Record<string, string>>(VALUE_KEYS.THREAD_ACCESS) ?? {};
+    const outbox = await backend.getValue<OutboxEntry[]>(VALUE_KEYS.OUTBOX) ?? [];
+    const pendingThreads = new Set(outbox.map(entry => entry.threadId));
+
+    const stats: ThreadCacheStats[] = [];
+    for (const threadId of await backend.getMessageThreadIds()) {
+      const messages = await backend.getMessages(threadId);
+      const thread = threads.get(threadId);
+      stats.push({
+        threadId,
+        title: thread?.title ?? null,
+        bytes: JSON.stringify(messages).length,
+        messageCount: messages.length,
+        lastAccessed: access[threadId] ?? null,
+        pinned: Boolean(thread?.pinned),
+        hasPending: pendingThreads.has(threadId),
+      });
     }
+    return stats;
+  }
+
+  /**
+   * Drop message caches of the least-recently-used threads until usage is
+   * back under the target. Pinned threads, threads with queued outbox
+   * messages and the thread on screen are never evicted. With `force`, evicts
+   * at least one cache regardless of the threshold, even when the quota is
+   * unknown (after a quota error). Returns the number of caches removed.
+   */
+  private async evict(backend: StorageBackend, force = false): Promise<number> {
+    const { used, quota } = await backend.getUsage();
+    if (!force && (quota <= 0 || used < quota * STORAGE_EVICTION_THRESHOLD)) return 0;
+
+    let excess = quota > 0 ? used - quota * STORAGE_EVICTION_TARGET : 0;
+    if (force) excess = Math.max(excess, 1);
+
+    const lastAccess = (s: ThreadCacheStats) =>
+      s.lastAccessed ? new Date(s.lastAccessed).getTime() : 0;
+    const candidates = (await this.collectCacheStats(backend))
+      .filter(s => !s.pinned && !s.hasPending && s.threadId !== this.activeThreadId)
+      .sort((a, b) => lastAccess(a) - lastAccess(b));
+
+    const evicted: string[] = [];
+    for (const candidate of candidates) {
+      if (excess <= 0) break;
+      await backend.removeMessages(candidate.threadId);
+      this.emit({ type: 'messagesReplaced', threadId: candidate.threadId, messages: [] });
+      excess -= candidate.bytes;
+      evicted.push(candidate.threadId);
+    }
+
+    if (evicted.length > 0) {
+      window.dispatchEvent(
+        new CustomEvent<StorageEvictedDetail>('storageEvicted', { detail: { threadIds: evicted } })
+      );
+    }
+    return evicted.length;
+  }
+
+  private updateOutbox(
+    operation: string,
+    update: (entries: OutboxEntry[]) => OutboxEntry[]
+  ): Promise<void> {
+    return this.write(operation, undefined, async backend => {
+      const entries = await backend.getValue<OutboxEntry[]>(VALUE_KEYS.OUTBOX) ?? [];
+      await backend.setValue(VALUE_KEYS.OUTBOX, update(entries));
+    });
+  }
+
+  private updateFeedback(
+    operation: string,
+    update: (entries: MessageFeedback[]) => MessageFeedback[]
+  ): Promise<void> {
+    return this.write(operation, undefined, async backend => {
+      const entries = await backend.getValue<MessageFeedback[]>(VALUE_KEYS.FEEDBACK) ?? [];
+      await backend.setValue(VALUE_KEYS.FEEDBACK, update(entries));
+    });
   }
 }
 
 export const storage = new StorageService();
-
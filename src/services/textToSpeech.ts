@@ -0,0 +1,576 @@
+import { api, isAbortError } from './api';
+import type { TextToSpeechProviderId, VoiceSettings } from './voiceSettings';
+import { speechSentences } from '../utils/speechText';
+import type { SpeechSentence } from '../utils/speechText';
+import { TTS_MODEL, TTS_VOICE } from '../config';
+
+export interface TextToSpeechHandlers {
+  // Playback finished; providers don't call it after their stop()
+  onEnd: () => void;
+  // Playback failed after it had started
+  onError: (message: string) => void;
+}
+
+// One answer in the player's queue
+export interface SpeechItem {
+  // Message key of the answer, for highlighting it while it is read
+  key: string;
+  // The answer's markdown
+  text: string;
+}
+
+export type SpeechPlayerStatus = 'idle' | 'loading' | 'playing' | 'paused';
+
+export interface SpeechPlayerState {
+  status: SpeechPlayerStatus;
+  itemKey: string | null;
+  // Position of the answer in the queue (0-based)
+  itemIndex: number;
+  itemCount: number;
+  sentence: SpeechSentence | null;
+  sentenceIndex: number;
+  sentenceCount: number;
+  rate: number;
+}
+
+export interface SpeechPlayerUpdatedDetail {
+  state: SpeechPlayerState;
+}
+
+export interface SpeakOptions {
+  // Provider-specific voice id; empty for the default voice
+  voice: string;
+  rate: number;
+  pitch: number;
+}
+
+export interface TtsVoice {
+  id: string;
+  label: string;
+}
+
+/**
+ * A text-to-speech backend for the "Speak" button. speak() resolves once
+ * playback has started and rejects when it cannot start; stop() ends playback
+ * silently. pause() and resume() apply to the text being played.
+ */
+export interface TextToSpeechProvider {
+  readonly id: TextToSpeechProviderId;
+  isSupported(): boolean;
+  // Voices to choose from; empty when the voice is typed in instead
+  getVoices(): Promise<TtsVoice[]>;
+  speak(text: string, options: SpeakOptions, handlers: TextToSpeechHandlers): Promise<void>;
+  stop(): void;
+  pause(): void;
+  resume(): void;
+}
+
+export const TEXT_TO_SPEECH_PROVIDERS: {
+  id: TextToSpeechProviderId;
+  label: string;
+  description: string;
+  supportsPitch: boolean;
+}[] = [
+  {
+    id: 'puter',
+    label: 'Puter.js',
+    description: 'Cloud voices loaded from js.puter.com. Needs internet access; falls back to browser speech when unavailable.',
+    supportsPitch: false,
+  },
+  {
+    id: 'browser',
+    label: 'Browser speech',
+    description: 'The voices installed in your browser and operating system (speechSynthesis). Works offline.',
+    supportsPitch: true,
+  },
+  {
+    id: 'http',
+    label: 'Speech server',
+    description: 'Posts the text to an OpenAI-compatible speech endpoint, such as a self-hosted TTS server, and plays the audio it returns.',
+    supportsPitch: false,
+  },
+];
+
+class BrowserSpeechProvider implements TextToSpeechProvider {
+  readonly id = 'browser';
+  private utterance: SpeechSynthesisUtterance | null = null;
+
+  isSupported(): boolean {
+    return typeof window.speechSynthesis !== 'undefined' && typeof SpeechSynthesisUtterance !== 'undefined';
+  }
+
+  async getVoices(): Promise<TtsVoice[]> {
+    if (!this.isSupported()) return [];
+    const synth = window.speechSynthesis;
+    // Chrome loads voices asynchronously
+    if (synth.getVoices().length === 0) {
+      await new Promise(resolve => {
+        synth.addEventListener('voiceschanged', resolve, { once: true });
+        setTimeout(resolve, 1000);
+      });
+    }
+    return synth.getVoices().map(voice => ({
+      id: voice.voiceURI,
+      label: `${voice.name} (${voice.lang})${voice.localService ? '' : ' – online'}`,
+    }));
+  }
+
+  async speak(text: string, options: SpeakOptions, handlers: TextToSpeechHandlers): Promise<void> {
+    if (!this.isSupported()) throw new Error('Speech synthesis is not supported in this browser.');
+    const synth = window.speechSynthesis;
+    synth.cancel();
+    // Chrome keeps a paused queue paused after cancel()
+    if (synth.paused) synth.resume();
+
+    const voice = options.voice
+      ? synth.getVoices().find(candidate => candidate.voiceURI === options.voice)
+      : undefined;
+    const utterance = new SpeechSynthesisUtterance(text);
+    if (voice) {
+      utterance.voice = voice;
+      utterance.lang = voice.lang;
+    } else {
+      utterance.lang = navigator.language || 'en-US';
+    }
+    utterance.rate = options.rate;
+    utterance.pitch = options.pitch;
+    utterance.onend = () => {
+      if (this.utterance !== utterance) return;
+      this.utterance = null;
+      handlers.onEnd();
+    };
+    utterance.onerror = event => {
+      // cancel() from stop() or a newer speak() reports these
+      if (event.error === 'interrupted' || event.error === 'canceled') return;
+      if (this.utterance !== utterance) return;
+      this.utterance = null;
+      handlers.onError(`Speech synthesis error: ${event.error}`);
+    };
+    this.utterance = utterance;
+    synth.speak(utterance);
+  }
+
+  stop(): void {
+    const utterance = this.utterance;
+    if (!utterance) return;
+    utterance.onend = null;
+    utterance.onerror = null;
+    this.utterance = null;
+    window.speechSynthesis.cancel();
+  }
+
+  pause(): void {
+    if (this.utterance) window.speechSynthesis.pause();
+  }
+
+  resume(): void {
+    if (this.utterance) window.speechSynthesis.resume();
+  }
+}
+
+interface AudioPlayback {
+  stop: () => void;
+  pause: () => void;
+  resume: () => void;
+}
+
+/**
+ * Shared playback for providers that produce an audio element. stop() on
+ * the result ends playback without calling the handlers.
+ */
+async function playAudio(
+  audio: HTMLAudioElement,
+  rate: number,
+  handlers: TextToSpeechHandlers,
+  onDone?: () => void
+): Promise<AudioPlayback> {
+  let finished = false;
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    audio.onended = null;
+    audio.onerror = null;
+    onDone?.();
+  };
+  audio.playbackRate = rate;
+  audio.onended = () => {
+    finish();
+    handlers.onEnd();
+  };
+  audio.onerror = () => {
+    finish();
+    handlers.onError('Failed to play audio.');
+  };
+  try {
+    await audio.play();
+  } catch (err) {
+    finish();
+    throw err;
+  }
+  return {
+    stop: () => {
+      if (finished) return;
+      finish();
+      try {
+        audio.pause();
+        audio.currentTime = 0;
+      } catch { /* already released */ }
+    },
+    pause: () => {
+      if (!finished) audio.pause();
+    },
+    resume: () => {
+      if (!finished) audio.play().catch(() => handlers.onError('Failed to resume audio.'));
+    },
+  };
+}
+
+interface PuterGlobal {
+  ai?: {
+    txt2speech?: (text: string, options?: { voice?: string; language?: string }) => Promise<HTMLAudioElement>;
+  };
+}
+
+// A few of the AWS Polly voices Puter exposes; the default is Joanna
+const PUTER_VOICES: TtsVoice[] = [
+  { id: 'Joanna', label: 'Joanna (en-US)' },
+  { id: 'Matthew', label: 'Matthew (en-US)' },
+  { id: 'Ivy', label: 'Ivy (en-US)' },
+  { id: 'Amy', label: 'Amy (en-GB)' },
+  { id: 'Brian', label: 'Brian (en-GB)' },
+  { id: 'Olivia', label: 'Olivia (en-AU)' },
+];
+
+function puterGlobal(): PuterGlobal | undefined {
+  return (window as unknown as { puter?: PuterGlobal }).puter;
+}
+
+class PuterProvider implements TextToSpeechProvider {
+  readonly id = 'puter';
+  private session = 0;
+  private playback: AudioPlayback | null = null;
+
+  isSupported(): boolean {
+    return Boolean(puterGlobal()?.ai?.txt2speech) && navigator.onLine;
+  }
+
+  async getVoices(): Promise<TtsVoice[]> {
+    return PUTER_VOICES;
+  }
+
+  async speak(text: string, options: SpeakOptions, handlers: TextToSpeechHandlers): Promise<void> {
+    const txt2speech = puterGlobal()?.ai?.txt2speech;
+    if (!txt2speech) throw new Error('Puter.js is not loaded.');
+    const session = ++this.session;
+    const audio = await txt2speech(text, options.voice ? { voice: options.voice } : undefined);
+    // stop() was called while the audio was being generated
+    if (session !== this.session) return;
+    const playback = await playAudio(audio, options.rate, handlers);
+    if (session !== this.session) {
+      playback.stop();
+      return;
+    }
+    this.playback = playback;
+  }
+
+  stop(): void {
+    this.session++;
+    this.playback?.stop();
+    this.playback = null;
+  }
+
+  pause(): void {
+    this.playback?.pause();
+  }
+
+  resume(): void {
+    this.playback?.resume();
+  }
+}
+
+class HttpSpeechProvider implements TextToSpeechProvider {
+  readonly id = 'http';
+  private controller: AbortController | null = null;
+  private playback: AudioPlayback | null = null;
+  private endpoint: string;
+
+  constructor(endpoint: string) {
+    this.endpoint = endpoint.trim();
+  }
+
+  isSupported(): boolean {
+    return Boolean(this.endpoint);
+  }
+
+  async getVoices(): Promise<TtsVoice[]> {
+    return [];
+  }
+
+  async speak(text: string, options: SpeakOptions, handlers: TextToSpeechHandlers): Promise<void> {
+    if (!this.endpoint) throw new Error('No speech endpoint is configured.');
+    const controller = new AbortController();
+    this.controller = controller;
+    try {
+      const audio = await api.synthesizeSpeech(this.endpoint, {
+        model: TTS_MODEL,
+        input: text,
+        voice: options.voice || TTS_VOICE,
+        speed: options.rate,
+        response_format: 'mp3',
+      }, { signal: controller.signal });
+      const url = URL.createObjectURL(audio);
+      // The server already applied the rate
+      const playback = await playAudio(new Audio(url), 1, handlers, () => URL.revokeObjectURL(url));
+      if (controller.signal.aborted) {
+        playback.stop();
+        return;
+      }
+      this.playback = playback;
+    } catch (err) {
+      // stop() while the request was in flight
+      if (isAbortError(err)) return;
+      throw err;
+    } finally {
+      if (this.controller === controller) this.controller = null;
+    }
+  }
+
+  stop(): void {
+    this.controller?.abort();
+    this.controller = null;
+    this.playback?.stop();
+    this.playback = null;
+  }
+
+  pause(): void {
+    this.playback?.pause();
+  }
+
+  resume(): void {
+    this.playback?.resume();
+  }
+}
+
+export function createTextToSpeechProvider(settings: VoiceSettings): TextToSpeechProvider {
+  switch (settings.ttsProvider) {
+    case 'browser':
+      return new BrowserSpeechProvider();
+    case 'http':
+      return new HttpSpeechProvider(settings.ttsEndpoint);
+    default:
+      return new PuterProvider();
+  }
+}
+
+/**
+ * Reads a queue of answers, sentence by sentence, with the provider chosen
+ * in settings. Falls back to the browser's own speech synthesis when that
+ * provider is unavailable or fails to start (e.g. offline). Stopping, or
+ * starting another queue, ends the current one with onEnd. Every change is
+ * announced with a speechPlayerUpdated event.
+ */
+class SpeechPlayer {
+  private current: TextToSpeechProvider | null = null;
+  private fallback = new BrowserSpeechProvider();
+  private handlers: Partial<TextToSpeechHandlers> | null = null;
+  private options: SpeakOptions = { voice: '', rate: 1, pitch: 1 };
+  private items: SpeechItem[] = [];
+  private itemIndex = 0;
+  private sentences: SpeechSentence[] = [];
+  private index = 0;
+  private status: SpeechPlayerStatus = 'idle';
+  // Paused before the sentence started playing, or the rate changed while
+  // paused: resume() plays the sentence again instead of continuing it
+  private restartOnResume = false;
+  // Bumped on every stop/skip so callbacks of an interrupted sentence are ignored
+  private session = 0;
+
+  getState(): SpeechPlayerState {
+    const idle = this.status === 'idle';
+    return {
+      status: this.status,
+      itemKey: idle ? null : this.items[this.itemIndex]?.key ?? null,
+      itemIndex: this.itemIndex,
+      itemCount: idle ? 0 : this.items.length,
+      sentence: idle ? null : this.sentences[this.index] ?? null,
+      sentenceIndex: this.index,
+      sentenceCount: idle ? 0 : this.sentences.length,
+      rate: this.options.rate,
+    };
+  }
+
+  async speak(
+    items: SpeechItem[],
+    settings: VoiceSettings,
+    handlers: Partial<TextToSpeechHandlers> = {}
+  ): Promise<void> {
+    this.stop();
+    const chosen = createTextToSpeechProvider(settings);
+    const provider = chosen.isSupported() ? chosen : this.fallback;
+    if (!provider.isSupported()) {
+      throw new Error('Text-to-speech is not available in this browser.');
+    }
+
+    const options = { voice: settings.ttsVoice, rate: settings.ttsRate, pitch: settings.ttsPitch };
+    // Another provider's voice id means nothing to the fallback
+    this.options = provider === chosen ? options : { ...options, voice: '' };
+    this.current = provider;
+    this.handlers = handlers;
+    this.items = items;
+    const session = this.session;
+    try {
+      await this.startItem(0, session);
+    } catch (err) {
+      this.finish(session, () => undefined);
+      throw err;
+    }
+  }
+
+  // Move to another sentence (-1 previous, 1 next), across answers in the queue
+  skip(delta: number): void {
+    if (!this.current || this.status === 'idle') return;
+    const session = this.interrupt();
+    const index = this.index + delta;
+    let next: Promise<void>;
+    if (index >= this.sentences.length) {
+      next = this.startItem(this.itemIndex + 1, session);
+    } else if (index < 0 && this.itemIndex > 0) {
+      next = this.startItem(this.itemIndex - 1, session, -1);
+    } else {
+      this.index = Math.max(index, 0);
+      next = this.play(session);
+    }
+    next.catch(err => this.fail(session, err));
+  }
+
+  pause(): void {
+    if (!this.current) return;
+    if (this.status === 'playing') {
+      this.current.pause();
+    } else if (this.status === 'loading') {
+      this.interrupt();
+      this.restartOnResume = true;
+    } else {
+      return;
+    }
+    this.setStatus('paused');
+  }
+
+  resume(): void {
+    if (!this.current || this.status !== 'paused') return;
+    if (this.restartOnResume) {
+      const session = this.interrupt();
+      this.play(session).catch(err => this.fail(session, err));
+      return;
+    }
+    this.current.resume();
+    this.setStatus('playing');
+  }
+
+  // Applies from the current sentence, which starts again at the new rate
+  setRate(rate: number): void {
+    this.options = { ...this.options, rate };
+    if (!this.current || this.status === 'idle') return;
+    if (this.status === 'paused') {
+      this.interrupt();
+      this.restartOnResume = true;
+      this.emit();
+      return;
+    }
+    const session = this.interrupt();
+    this.play(session).catch(err => this.fail(session, err));
+  }
+
+  stop(): void {
+    const handlers = this.handlers;
+    this.session++;
+    this.current?.stop();
+    this.reset();
+    handlers?.onEnd?.();
+  }
+
+  private interrupt(): number {
+    this.current?.stop();
+    this.restartOnResume = false;
+    return ++this.session;
+  }
+
+  // sentenceIndex -1 starts at the answer's last sentence
+  private async startItem(itemIndex: number, session: number, sentenceIndex = 0): Promise<void> {
+    // Answers with nothing to say (only a code block) are skipped
+    for (let i = itemIndex; i >= 0 && i < this.items.length; i += sentenceIndex < 0 ? -1 : 1) {
+      const sentences = speechSentences(this.items[i].text);
+      if (sentences.length === 0) continue;
+      this.itemIndex = i;
+      this.sentences = sentences;
+      this.index = sentenceIndex < 0 ? sentences.length - 1 : sentenceIndex;
+      return this.play(session);
+    }
+    this.finish(session, handlers => handlers.onEnd?.());
+  }
+
+  private async play(session: number): Promise<void> {
+    const provider = this.current;
+    if (!provider) return;
+    this.setStatus('loading');
+    try {
+      await provider.speak(this.sentences[this.index].text, this.options, {
+        onEnd: () => {
+          if (session !== this.session) return;
+          let next: Promise<void>;
+          if (this.index + 1 < this.sentences.length) {
+            this.index++;
+            next = this.play(session);
+          } else {
+            next = this.startItem(this.itemIndex + 1, session);
+          }
+          next.catch(err => this.fail(session, err));
+        },
+        onError: (message) => this.finish(session, handlers => handlers.onError?.(message)),
+      });
+      if (session === this.session && this.status === 'loading') this.setStatus('playing');
+    } catch (err) {
+      if (session !== this.session) return;
+      if (provider === this.fallback || !this.fallback.isSupported()) throw err;
+      // Read the rest with browser speech
+      this.current = this.fallback;
+      this.options = { ...this.options, voice: '' };
+      await this.play(session);
+    }
+  }
+
+  private fail(session: number, err: unknown): void {
+    this.finish(session, handlers => handlers.onError?.(err instanceof Error ? err.message : String(err)));
+  }
+
+  private finish(session: number, notify: (handlers: Partial<TextToSpeechHandlers>) => void): void {
+    if (session !== this.session || !this.handlers) return;
+    const handlers = this.handlers;
+    this.reset();
+    notify(handlers);
+  }
+
+  private reset(): void {
+    this.current = null;
+    this.handlers = null;
+    this.items = [];
+    this.sentences = [];
+    this.itemIndex = 0;
+    this.index = 0;
+    this.restartOnResume = false;
+    this.setStatus('idle');
+  }
+
+  private setStatus(status: SpeechPlayerStatus): void {
+    this.status = status;
+    this.emit();
+  }
+
+  private emit(): void {
+    window.dispatchEvent(
+      new CustomEvent<SpeechPlayerUpdatedDetail>('speechPlayerUpdated', { detail: { state: this.getState() } })
+    );
+  }
+}
+
+export const speechPlayer = new SpeechPlayer();
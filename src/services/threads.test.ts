@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChatResponse, Message, ThreadInfo } from '../types/api';
+import type { ExportedThread } from '../utils/exporters';
+import { importConversations } from './threads';
+import { storage, isLocalThreadId } from './storage';
+import { outbox } from './outbox';
+import type { OutboxUpdatedDetail } from './outbox';
+
+const { mockApi } = vi.hoisted(() => ({
+  mockApi: {
+    createThread: vi.fn<() => Promise<ThreadInfo>>(),
+    sendMessage: vi.fn<(message: string, threadId: string) => Promise<ChatResponse>>(),
+  },
+}));
+
+vi.mock('./api', () => ({ api: mockApi }));
+
+vi.mock('./storage', async importOriginal => {
+  const actual = await importOriginal<typeof import('./storage')>();
+  const { MemoryBackend } = await import('../test/memoryBackend');
+  const backend = new MemoryBackend();
+  return { ...actual, storage: new actual.StorageService(async () => backend) };
+});
+
+function message(id: string, role: Message['role'], content: string, timestamp: string): Message {
+  return { id, role, content, timestamp };
+}
+
+function thread(threadId: string): ThreadInfo {
+  return {
+    thread_id: threadId,
+    created_at: '2026-01-01T10:00:00.000Z',
+    last_activity: '2026-01-01T10:01:00.000Z',
+    title: 'Top artists',
+    message_count: 2,
+  };
+}
+
+const EXPORTED: ExportedThread = {
+  thread: thread('exported-1'),
+  messages: [
+    message('m1', 'user', 'Who are the top artists?', '2026-01-01T10:00:00.000Z'),
+    message('m2', 'assistant', 'Iron Maiden, U2 and Metallica.', '2026-01-01T10:01:00.000Z'),
+  ],
+};
+
+async function importedThreadId(): Promise<string> {
+  const [imported] = (await storage.getThreads()).filter(t => isLocalThreadId(t.thread_id));
+  return imported.thread_id;
+}
+
+describe('importConversations', () => {
+  beforeEach(async () => {
+    vi.stubGlobal('window', new EventTarget());
+    await storage.clearAll();
+  });
+
+  afterEach(() => {
+    outbox.setOnline(false);
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it('skips conversations that were already imported', async () => {
+    expect(await importConversations([EXPORTED])).toEqual({ imported: 1, skipped: 0 });
+    expect(await importConversations([EXPORTED])).toEqual({ imported: 0, skipped: 1 });
+    expect(await storage.getThreads()).toHaveLength(1);
+  });
+
+  it('keeps the imported history after a follow-up creates the thread on the server', async () => {
+    await importConversations([EXPORTED]);
+    const localId = await importedThreadId();
+
+    const server = thread('server-1');
+    mockApi.createThread.mockResolvedValue({ ...server, message_count: 0 });
+    mockApi.sendMessage.mockResolvedValue({
+      response: 'Iron Maiden has 21 albums.',
+      thread_id: server.thread_id,
+      message_id: 'srv-2',
+      timestamp: '2026-02-01T09:00:05.000Z',
+      debug_info: null,
+    });
+    // The server's copy only has the follow-up and its answer
+    const serverHistory = [
+      message('srv-1', 'user', 'How many albums does the first one have?', '2026-02-01T09:00:00.000Z'),
+      message('srv-2', 'assistant', 'Iron Maiden has 21 albums.', '2026-02-01T09:00:05.000Z'),
+    ];
+
+    const delivered = new Promise<void>(resolve => {
+      window.addEventListener('outboxUpdated', event => {
+        if ((event as CustomEvent<OutboxUpdatedDetail>).detail.threadId === server.thread_id) resolve();
+      });
+    });
+    await outbox.enqueue(localId, 'How many albums does the first one have?');
+    outbox.setOnline(true);
+    await delivered;
+
+    // What opening the thread does with the server's page
+    await storage.syncMessages(server.thread_id, serverHistory, { isOldest: true, isNewest: true });
+
+    const cached = await storage.getMessages(server.thread_id);
+    expect(cached.map(m => m.content)).toEqual([
+      'Who are the top artists?',
+      'Iron Maiden, U2 and Metallica.',
+      'How many albums does the first one have?',
+      'Iron Maiden has 21 albums.',
+    ]);
+    expect(await storage.getThread(server.thread_id)).toMatchObject({ imported_from: 'exported-1' });
+  });
+});
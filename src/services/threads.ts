@@ -0,0 +1,165 @@
+import type { ThreadInfo, ThreadUpdateRequest, Message } from '../types/api';
+import { api } from './api';
+import { storage, isLocalThreadId } from './storage';
+import type { ExportedThread } from '../utils/exporters';
+
+/**
+ * Rename, pin or archive a thread. The change is cached immediately and then
+ * sent to the server when it supports thread updates; if it doesn't (or the
+ * request fails) the cached value still applies in this browser.
+ */
+export async function updateThreadMetadata(
+  threadId: string,
+  changes: ThreadUpdateRequest
+): Promise<ThreadInfo | null> {
+  const updated = await storage.updateThread(threadId, changes);
+  window.dispatchEvent(new Event('threadUpdated'));
+
+  // Offline threads don't exist on the server yet
+  if (isLocalThreadId(threadId)) return updated;
+  try {
+    await api.updateThread(threadId, changes);
+  } catch (err) {
+    console.warn(`Failed to sync thread ${threadId} update to the server:`, err);
+  }
+  return updated;
+}
+
+export interface BranchProgress {
+  // Earlier questions replayed into the new thread so far
+  replayed: number;
+  total: number;
+}
+
+/**
+ * Fork a thread to continue it with an edited question. The new thread holds
+ * the questions asked before the edited one (`earlierQuestions`) and their
+ * answers: copied by the server when it supports branching, otherwise
+ * replayed one by one. The fork is recorded as a branch of the source
+ * thread's family. The edited question itself is left for the caller to send.
+ */
+export async function forkThread(
+  sourceThreadId: string,
+  earlierQuestions: string[],
+  question: string,
+  onProgress?: (progress: BranchProgress) => void
+): Promise<ThreadInfo> {
+  const source = await storage.getThread(sourceThreadId);
+  const sourceBranch = await storage.getBranch(sourceThreadId);
+
+  let thread = await api.branchThread(sourceThreadId, earlierQuestions.length);
+  if (thread) {
+    await storage.addOrUpdateThread(thread);
+  } else {
+    thread = await api.createThread(source?.title ?? undefined);
+    await storage.addOrUpdateThread(thread);
+    try {
+      for (const [index, earlier] of earlierQuestions.entries()) {
+        onProgress?.({ replayed: index, total: earlierQuestions.length });
+        const userMessage: Message = {
+          id: null,
+          role: 'user',
+          content: earlier,
+          timestamp: new Date().toISOString(),
+        };
+        const response = await api.sendMessage(earlier, thread.thread_id);
+        await storage.addMessages(thread.thread_id, [userMessage, {
+          id: response.message_id,
+          role: 'assistant',
+          content: response.response,
+          timestamp: response.timestamp,
+          debug_info: response.debug_info,
+        }]);
+      }
+    } catch (err) {
+      // Don't leave a half-seeded thread behind
+      await storage.removeThread(thread.thread_id);
+      api.deleteThread(thread.thread_id).catch(() => {});
+      throw err;
+    }
+  }
+
+  await storage.addBranch({
+    threadId: thread.thread_id,
+    parentThreadId: sourceThreadId,
+    rootThreadId: sourceBranch?.rootThreadId ?? sourceThreadId,
+    forkTurn: earlierQuestions.length,
+    question,
+    createdAt: new Date().toISOString(),
+  });
+  return thread;
+}
+
+// Largest page the messages endpoint allows
+const EXPORT_PAGE_SIZE = 200;
+
+/**
+ * Complete thread for export. Fetches every page from the server (refreshing
+ * the cache) and falls back to the cached copy for offline or imported
+ * threads, or when the server can't be reached.
+ */
+export async function loadThreadForExport(threadId: string): Promise<ExportedThread | null> {
+  const thread = await storage.getThread(threadId);
+  if (!thread) return null;
+  if (isLocalThreadId(threadId)) {
+    return { thread, messages: await storage.getMessages(threadId) };
+  }
+
+  try {
+    const messages: Message[] = [];
+    let total = Infinity;
+    while (messages.length < total) {
+      const page = await api.getMessages(threadId, EXPORT_PAGE_SIZE, messages.length);
+      messages.push(...page.messages);
+      total = page.total;
+      if (page.messages.length === 0) break;
+    }
+    return { thread, messages: await storage.syncMessages(threadId, messages) };
+  } catch (err) {
+    console.warn(`Exporting cached copy of thread ${threadId}:`, err);
+    return { thread, messages: await storage.getMessages(threadId) };
+  }
+}
+
+/**
+ * Recreate exported threads in the local cache. Imported threads get local
+ * ids, so they open from the cache without the backend knowing them; threads
+ * that are already cached under their original id are skipped. Their
+ * messages are marked as imported, so that once a follow-up question creates
+ * the thread on the server, syncing with its (shorter) history keeps them.
+ */
+export async function importConversations(
+  threads: ExportedThread[]
+): Promise<{ imported: number; skipped: number }> {
+  let imported = 0;
+  let skipped = 0;
+  // Threads already here, under their own id or as an earlier import of the same export
+  const known = new Set((await storage.getThreads()).flatMap(thread =>
+    thread.imported_from ? [thread.thread_id, thread.imported_from] : [thread.thread_id]
+  ));
+  for (const { thread, messages } of threads) {
+    const originalId = thread.imported_from ?? thread.thread_id;
+    if (known.has(thread.thread_id) || known.has(originalId)) {
+      skipped++;
+      continue;
+    }
+    known.add(originalId);
+    const local = await storage.createLocalThread();
+    await storage.addOrUpdateThread({
+      ...thread,
+      thread_id: local.thread_id,
+      imported_from: originalId,
+      // Keep the exported title even if auto-titling would pick another one
+      user_title: thread.title ? true : thread.user_title,
+    });
+    // Queued or failed sends belonged to the exporting browser's outbox
+    await storage.saveMessages(local.thread_id, messages.map(message => {
+      const copy: Message = { ...message, imported: true };
+      if (copy.status === 'pending' || copy.status === 'failed') delete copy.status;
+      return copy;
+    }));
+    imported++;
+  }
+  window.dispatchEvent(new Event('threadUpdated'));
+  return { imported, skipped };
+}
@@ -0,0 +1,55 @@
+import { TRANSCRIPTION_ENDPOINT, TTS_ENDPOINT } from '../config';
+
+export type SpeechToTextProviderId = 'webspeech' | 'recorder';
+export type TextToSpeechProviderId = 'browser' | 'puter' | 'http';
+
+export interface VoiceSettings {
+  sttProvider: SpeechToTextProviderId;
+  // Where the recorder provider posts audio; absolute URL or a path on the API server
+  transcriptionEndpoint: string;
+  // Pause after speech that sends the question in hands-free mode
+  handsFreeSilenceMs: number;
+  ttsProvider: TextToSpeechProviderId;
+  // Provider-specific voice id; empty for the provider's default voice
+  ttsVoice: string;
+  ttsRate: number;
+  ttsPitch: number;
+  // Where the HTTP provider posts text to speak
+  ttsEndpoint: string;
+}
+
+export interface VoiceSettingsChangedDetail {
+  settings: VoiceSettings;
+}
+
+// Kept in localStorage next to the theme: per-browser preferences, not cached data
+const SETTINGS_KEY = 'voice_settings';
+
+const DEFAULT_SETTINGS: VoiceSettings = {
+  sttProvider: 'webspeech',
+  transcriptionEndpoint: TRANSCRIPTION_ENDPOINT,
+  handsFreeSilenceMs: 1500,
+  ttsProvider: 'puter',
+  ttsVoice: '',
+  ttsRate: 1,
+  ttsPitch: 1,
+  ttsEndpoint: TTS_ENDPOINT,
+};
+
+export function getVoiceSettings(): VoiceSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}') as Partial<VoiceSettings>;
+    return { ...DEFAULT_SETTINGS, ...saved };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+export function saveVoiceSettings(changes: Partial<VoiceSettings>): VoiceSettings {
+  const settings = { ...getVoiceSettings(), ...changes };
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  window.dispatchEvent(
+    new CustomEvent<VoiceSettingsChangedDetail>('voiceSettingsChanged', { detail: { settings } })
+  );
+  return settings;
+}
@@ -0,0 +1,92 @@
+import type { Message } from '../types/api';
+import type { StorageBackend, StorageUsage, StoredThread } from '../types/storage';
+
+/**
+ * In-memory StorageBackend for tests. With a `capacity`, writes that would
+ * take messages past that many bytes fail with a QuotaExceededError the way
+ * browsers do, while getUsage() reports `reportedQuota`: IndexedDB reports
+ * the origin's (huge) quota or none at all, localStorage its own limit.
+ */
+export class MemoryBackend implements StorageBackend {
+  readonly name: StorageBackend['name'];
+  private reportedQuota: number;
+  private capacity: number;
+  private threads: StoredThread[] = [];
+  private messages = new Map<string, Message[]>();
+  private values = new Map<string, unknown>();
+
+  constructor(
+    name: StorageBackend['name'] = 'indexeddb',
+    { reportedQuota = 0, capacity = Infinity }: { reportedQuota?: number; capacity?: number } = {}
+  ) {
+    this.name = name;
+    this.reportedQuota = reportedQuota;
+    this.capacity = capacity;
+  }
+
+  private used(messages = this.messages): number {
+    let used = 0;
+    messages.forEach(list => {
+      used += JSON.stringify(list).length;
+    });
+    return used;
+  }
+
+  private async storeMessages(threadId: string, list: Message[]): Promise<void> {
+    const next = new Map(this.messages).set(threadId, list);
+    if (this.used(next) > this.capacity) {
+      throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    }
+    this.messages = next;
+  }
+
+  async getThreads(): Promise<StoredThread[]> {
+    return this.threads;
+  }
+
+  async saveThreads(threads: StoredThread[]): Promise<void> {
+    this.threads = threads;
+  }
+
+  async getMessages(threadId: string): Promise<Message[]> {
+    return this.messages.get(threadId) ?? [];
+  }
+
+  saveMessages(threadId: string, messages: Message[]): Promise<void> {
+    return this.storeMessages(threadId, messages);
+  }
+
+  appendMessages(threadId: string, messages: Message[]): Promise<void> {
+    return this.storeMessages(threadId, [...(this.messages.get(threadId) ?? []), ...messages]);
+  }
+
+  async removeMessages(threadId: string): Promise<void> {
+    this.messages.delete(threadId);
+  }
+
+  async getMessageThreadIds(): Promise<string[]> {
+    return [...this.messages.keys()];
+  }
+
+  async getValue<T>(key: string): Promise<T | null> {
+    return (this.values.get(key) as T | undefined) ?? null;
+  }
+
+  async setValue<T>(key: string, value: T): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async removeValue(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.threads = [];
+    this.messages.clear();
+    this.values.clear();
+  }
+
+  async getUsage(): Promise<StorageUsage> {
+    return { used: this.used(), quota: this.reportedQuota };
+  }
+}
@@ -6,6 +6,28 @@ export interface ThreadInfo {
   last_activity: string | null;
   title: string | null;
   message_count: number | null;
+  // Set when the user renamed the thread; auto-titling leaves it alone
+  user_title?: boolean;
+  // Pinned threads sit at the top of the sidebar and are never evicted from the cache
+  pinned?: boolean;
+  // Archived threads are hidden from the main list but not deleted
+  archived?: boolean;
+  // Id the thread had in the export it was imported from
+  imported_from?: string;
+}
+
+// Fields accepted by PATCH /threads/{thread_id}
+export interface ThreadUpdateRequest {
+  title?: string;
+  user_title?: boolean;
+  pinned?: boolean;
+  archived?: boolean;
+}
+
+// Body of POST /threads/{thread_id}/branch
+export interface ThreadBranchRequest {
+  // Questions (with their answers) copied from the start of the thread
+  keep_user_turns: number;
 }
 
 export interface ThreadListResponse {
@@ -28,12 +50,58 @@ export interface AgentDebugInfo {
   model_name: string | null;
 }
 
+// Client-side delivery state of a locally sent message (never sent by the API)
+// pending: queued in the offline outbox; failed: outbox gave up retrying
+export type MessageStatus = 'cancelled' | 'pending' | 'failed';
+
 export interface Message {
   id: string | null;
   role: 'user' | 'assistant' | 'tool' | 'unknown';
   content: string;
   timestamp: string | null;
   debug_info?: AgentDebugInfo | null;
+  status?: MessageStatus;
+  // Client-generated id for messages created locally (links outbox entries)
+  client_id?: string;
+  // Follow-up questions suggested by the backend for an answer
+  suggestions?: string[] | null;
+  // Copied from an export; the thread's server copy doesn't have it
+  imported?: boolean;
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+export type FeedbackCategory = 'wrong_sql' | 'wrong_number' | 'hallucinated_entity' | 'too_slow';
+
+// Body posted to the feedback endpoint (VITE_FEEDBACK_ENDPOINT); also one
+// line of the JSONL feedback export
+export interface FeedbackRequest {
+  thread_id: string;
+  message_id: string | null;
+  rating: FeedbackRating;
+  category: FeedbackCategory | null;
+  note: string | null;
+  question: string | null;
+  answer: string;
+  tool_calls: ToolCallInfo[];
+  model_name: string | null;
+  answered_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Response of the transcription endpoint (OpenAI-compatible Whisper servers)
+export interface TranscriptionResponse {
+  text: string;
+}
+
+// Body of the text-to-speech endpoint; the response is the audio itself
+export interface SpeechRequest {
+  model: string;
+  input: string;
+  voice: string;
+  speed: number;
+  response_format: 'mp3';
 }
 
 export interface MessagesResponse {
@@ -55,8 +123,51 @@ export interface ChatResponse {
   message_id: string | null;
   timestamp: string | null;
   debug_info: AgentDebugInfo | null;
+  // Optional: follow-up questions the user might ask next
+  suggestions?: string[] | null;
+}
+
+// Streaming chat events (POST /chat/stream, server-sent events)
+
+export interface TextDeltaEvent {
+  type: 'text_delta';
+  delta: string;
+}
+
+export interface ToolCallStartEvent {
+  type: 'tool_call_start';
+  tool_call_id: string;
+  tool_name: string;
+  args: ToolCallInfo['args'];
+}
+
+export interface ToolCallEndEvent {
+  type: 'tool_call_end';
+  tool_call_id: string;
+  output: string | null;
+}
+
+export interface StreamDoneEvent {
+  type: 'done';
+  thread_id: string;
+  message_id: string | null;
+  timestamp: string | null;
+  debug_info: AgentDebugInfo | null;
+  suggestions?: string[] | null;
 }
 
+export interface StreamErrorEvent {
+  type: 'error';
+  detail: string;
+}
+
+export type ChatStreamEvent =
+  | TextDeltaEvent
+  | ToolCallStartEvent
+  | ToolCallEndEvent
+  | StreamDoneEvent
+  | StreamErrorEvent;
+
 export interface HealthResponse {
   status: string;
   agent_name: string;
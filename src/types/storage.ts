@@ -0,0 +1,42 @@
+// Storage backend types shared by the localStorage and IndexedDB implementations
+
+import type { ThreadInfo, Message } from './api';
+
+export interface StoredThread extends ThreadInfo {
+  lastSynced?: string;
+}
+
+export interface StorageUsage {
+  used: number; // bytes
+  quota: number; // bytes available to this origin (estimated)
+}
+
+/**
+ * Low-level persistence used by StorageService.
+ * Message lists are kept in insertion order per thread; merging and
+ * de-duplication happen in the service.
+ */
+export interface StorageBackend {
+  readonly name: 'indexeddb' | 'localstorage';
+
+  getThreads(): Promise<StoredThread[]>;
+  // Replaces the whole thread list
+  saveThreads(threads: StoredThread[]): Promise<void>;
+
+  getMessages(threadId: string): Promise<Message[]>;
+  // Replaces a thread's messages
+  saveMessages(threadId: string, messages: Message[]): Promise<void>;
+  // Adds messages after the existing ones without rewriting them
+  appendMessages(threadId: string, messages: Message[]): Promise<void>;
+  removeMessages(threadId: string): Promise<void>;
+  // Thread ids that have cached messages
+  getMessageThreadIds(): Promise<string[]>;
+
+  // Small keyed values (outbox, sync info, flags)
+  getValue<T>(key: string): Promise<T | null>;
+  setValue<T>(key: string, value: T): Promise<void>;
+  removeValue(key: string): Promise<void>;
+
+  clear(): Promise<void>;
+  getUsage(): Promise<StorageUsage>;
+}
@@ -0,0 +1,136 @@
+import type { TableData, TableCell } from './toolOutput';
+
+export type ChartType = 'bar' | 'line' | 'pie';
+
+export interface ChartSpec {
+  type: ChartType;
+  // Column indexes for labels and values
+  x: number;
+  y: number;
+}
+
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+export type ColumnKind = 'number' | 'date' | 'text';
+
+export const CHART_TYPES: { type: ChartType; label: string }[] = [
+  { type: 'bar', label: 'Bar' },
+  { type: 'line', label: 'Line' },
+  { type: 'pie', label: 'Pie' },
+];
+
+// Results outside this range aren't worth (or able to be) charted
+const MIN_ROWS = 2;
+const MAX_ROWS = 500;
+// Pie charts only read well with a handful of slices
+const MAX_PIE_SLICES = 6;
+const DATE_PATTERN = /^\d{4}-\d{2}(-\d{2})?([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?/;
+const TIME_COLUMN_PATTERN = /(^|_|\b)(year|month|date|day|week|quarter|period)s?($|_|\b)/i;
+const ID_COLUMN_PATTERN = /(^|_)id$|[a-z]Id$/i;
+const SHARE_COLUMN_PATTERN = /share|percent|pct|ratio|proportion/i;
+
+export function toNumber(cell: TableCell): number | null {
+  if (typeof cell === 'number') return Number.isFinite(cell) ? cell : null;
+  if (typeof cell === 'string' && cell.trim() !== '' && !isNaN(Number(cell))) return Number(cell);
+  return null;
+}
+
+export function columnKind(data: TableData, column: number): ColumnKind {
+  const cells = data.rows.map(row => row[column]).filter(cell => cell !== null && cell !== '');
+  if (cells.length === 0) return 'text';
+  if (cells.every(cell => typeof cell === 'string' && DATE_PATTERN.test(cell))) return 'date';
+  if (cells.every(cell => toNumber(cell) !== null)) {
+    // Years and month numbers are time axes, not measures
+    const isWhole = cells.every(cell => Number.isInteger(toNumber(cell)));
+    return isWhole && TIME_COLUMN_PATTERN.test(data.columns[column]) ? 'date' : 'number';
+  }
+  return 'text';
+}
+
+/**
+ * Pick a chart for a result, or null when it doesn't look chartable:
+ * date + number is a line, a few non-negative shares is a pie, and any
+ * other label + number is a bar chart.
+ */
+export function inferChart(data: TableData): ChartSpec | null {
+  if (data.rows.length < MIN_ROWS || data.rows.length > MAX_ROWS || data.columns.length < 2) {
+    return null;
+  }
+  const kinds = data.columns.map((_, i) => columnKind(data, i));
+  const date = kinds.indexOf('date');
+  const text = kinds.indexOf('text');
+  const x = date >= 0 ? date : text >= 0 ? text : 0;
+  // Prefer measures over id columns (CustomerId, Name, Total -> Total)
+  const measures = kinds
+    .map((kind, i) => (kind === 'number' && i !== x ? i : -1))
+    .filter(i => i >= 0);
+  const y = measures.find(i => !ID_COLUMN_PATTERN.test(data.columns[i])) ?? measures[0];
+  if (y === undefined) return null;
+
+  if (date >= 0) return { type: 'line', x, y };
+  const values = data.rows.map(row => toNumber(row[y]));
+  const isShare = data.rows.length <= MAX_PIE_SLICES &&
+    values.every(value => value !== null && value >= 0) &&
+    (SHARE_COLUMN_PATTERN.test(data.columns[y]) || data.rows.length <= 4);
+  return { type: isShare ? 'pie' : 'bar', x, y };
+}
+
+function labelOf(cell: TableCell): string {
+  return cell === null ? '(empty)' : String(cell);
+}
+
+/**
+ * Points to plot. Rows without a numeric value are skipped; line charts
+ * are ordered along their x axis.
+ */
+export function chartPoints(data: TableData, spec: ChartSpec): ChartPoint[] {
+  const rows = data.rows.filter(row => toNumber(row[spec.y]) !== null);
+  if (spec.type === 'line') {
+    rows.sort((a, b) => {
+      const x = toNumber(a[spec.x]);
+      const y = toNumber(b[spec.x]);
+      return x !== null && y !== null ? x - y : labelOf(a[spec.x]).localeCompare(labelOf(b[spec.x]));
+    });
+  }
+  return rows.map(row => ({ label: labelOf(row[spec.x]), value: toNumber(row[spec.y])! }));
+}
+
+// Largest slices, with the rest grouped as "Other"
+export function pieSlices(points: ChartPoint[]): ChartPoint[] {
+  const positive = points.filter(point => point.value > 0).sort((a, b) => b.value - a.value);
+  if (positive.length <= MAX_PIE_SLICES) return positive;
+  const kept = positive.slice(0, MAX_PIE_SLICES - 1);
+  const other = positive.slice(MAX_PIE_SLICES - 1).reduce((sum, point) => sum + point.value, 0);
+  return [...kept, { label: 'Other', value: other }];
+}
+
+/**
+ * Round axis ticks (1, 2 or 5 times a power of ten) covering min..max
+ */
+export function niceTicks(min: number, max: number, count = 5): number[] {
+  if (min === max) {
+    max = min === 0 ? 1 : min + Math.abs(min);
+  }
+  const rough = (max - min) / count;
+  const power = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 5, 10].map(m => m * power).find(s => s >= rough) ?? power * 10;
+  const first = Math.floor(min / step);
+  const last = Math.ceil(max / step);
+  const ticks: number[] = [];
+  for (let i = first; i <= last; i++) {
+    // Avoid 0.30000000000000004
+    ticks.push(Number((i * step).toPrecision(12)));
+  }
+  return ticks;
+}
+
+export function formatTick(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1e9) return `${value / 1e9}B`;
+  if (abs >= 1e6) return `${value / 1e6}M`;
+  if (abs >= 1e4) return `${value / 1e3}k`;
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
@@ -0,0 +1,15 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Quote a field when it contains a delimiter, quote or line break (RFC 4180)
+function escapeCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows (first row usually the header) to CSV with CRLF line endings
+ */
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+}
@@ -0,0 +1,79 @@
+export type DiffType = 'same' | 'added' | 'removed';
+
+export interface DiffPart {
+  type: DiffType;
+  text: string;
+}
+
+// Above this many cells the LCS table gets too slow; the texts are shown as replaced
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Longest-common-subsequence diff of two token lists. Adjacent tokens of the
+ * same type are merged, so joining the parts' text gives back the inputs.
+ */
+export function diffTokens(before: string[], after: string[]): DiffPart[] {
+  const parts: DiffPart[] = [];
+  const push = (type: DiffType, text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  if (before.length * after.length > MAX_DIFF_CELLS) {
+    push('removed', before.join(''));
+    push('added', after.join(''));
+    return parts.filter(part => part.text);
+  }
+
+  // lengths[i][j]: LCS length of before[i..] and after[j..]
+  const lengths = Array.from({ length: before.length + 1 }, () =>
+    new Uint32Array(after.length + 1)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      push('same', before[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', before[i++]);
+    } else {
+      push('added', after[j++]);
+    }
+  }
+  while (i < before.length) push('removed', before[i++]);
+  while (j < after.length) push('added', after[j++]);
+  return parts;
+}
+
+// Word-level diff; each word carries the whitespace after it
+export function diffWords(before: string, after: string): DiffPart[] {
+  const tokenize = (text: string) => text.match(/^\s+|\S+\s*/g) ?? [];
+  return diffTokens(tokenize(before), tokenize(after));
+}
+
+// Line-level diff, for code such as SQL
+export function diffLines(before: string, after: string): DiffPart[] {
+  // A missing final newline shouldn't make the last line differ
+  const tokenize = (text: string) =>
+    (text ? (text.endsWith('\n') ? text : `${text}\n`).split(/(?<=\n)/) : []);
+  return diffTokens(tokenize(before), tokenize(after));
+}
+
+// True when every part is unchanged
+export function isSameText(parts: DiffPart[]): boolean {
+  return parts.every(part => part.type === 'same');
+}
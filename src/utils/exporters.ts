@@ -0,0 +1,213 @@
+import { createElement } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import type { ThreadInfo, Message } from '../types/api';
+import { toCsv } from './csv';
+
+export type ExportFormat = 'markdown' | 'html' | 'json' | 'csv';
+
+const EXPORT_FORMAT_ID = 'chinook-conversations';
+const EXPORT_VERSION = 1;
+
+export interface ExportedThread {
+  thread: ThreadInfo;
+  messages: Message[];
+}
+
+// JSON export envelope; also the import format
+export interface ConversationExport {
+  format: typeof EXPORT_FORMAT_ID;
+  version: typeof EXPORT_VERSION;
+  exported_at: string;
+  threads: ExportedThread[];
+}
+
+export interface ExportFile {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'json', label: 'JSON' },
+  { format: 'csv', label: 'CSV' },
+];
+
+const ROLE_LABELS: Record<Message['role'], string> = {
+  user: 'You',
+  assistant: 'Assistant',
+  tool: 'Tool',
+  unknown: 'Message',
+};
+
+// Transcripts show what the chat shows: user messages and non-empty answers
+function transcriptMessages(messages: Message[]): Message[] {
+  return messages.filter(m =>
+    m.role === 'user' || (m.role === 'assistant' && m.content.trim().length > 0)
+  );
+}
+
+function threadTitle(thread: ThreadInfo): string {
+  return thread.title || 'New Conversation';
+}
+
+function formatTime(timestamp: string | null): string {
+  return timestamp ? new Date(timestamp).toLocaleString() : '';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function exportMarkdown(threads: ExportedThread[]): string {
+  return threads.map(({ thread, messages }) => {
+    const lines = [`# ${threadTitle(thread)}`, ''];
+    if (thread.created_at) {
+      lines.push(`_Started ${formatTime(thread.created_at)}_`, '');
+    }
+    transcriptMessages(messages).forEach(message => {
+      const time = formatTime(message.timestamp);
+      lines.push(`**${ROLE_LABELS[message.role]}**${time ? ` · ${time}` : ''}`, '');
+      lines.push(message.content.trim(), '');
+    });
+    return lines.join('\n');
+  }).join('\n---\n\n');
+}
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 860px; margin: 40px auto; padding: 0 20px; color: #1a1a1a; line-height: 1.5; }
+  h1 { font-size: 24px; border-bottom: 1px solid #e0e0e0; padding-bottom: 8px; }
+  .meta { color: #666; font-size: 13px; }
+  .message { margin: 16px 0; padding: 12px 16px; border-radius: 12px; }
+  .message.user { background: #fce4ec; margin-left: 20%; white-space: pre-wrap; }
+  .message.assistant { background: #f9f5ff; border: 1px solid #e0d5f0; margin-right: 10%; }
+  .role { font-weight: 600; font-size: 13px; color: #7b1fa2; margin-bottom: 4px; }
+  .time { font-weight: 400; color: #999; }
+  table { border-collapse: collapse; margin: 8px 0; }
+  th, td { border: 1px solid #e0e0e0; padding: 4px 8px; text-align: left; }
+  th { background: #f3e5f5; }
+  code { background: #f3e5f5; padding: 1px 4px; border-radius: 4px; }
+  pre { background: #f3e5f5; padding: 12px; border-radius: 8px; overflow-x: auto; }
+  pre code { background: none; padding: 0; }
+  hr { border: none; border-top: 2px solid #e0e0e0; margin: 40px 0; }
+`;
+
+/**
+ * Self-contained HTML page; assistant markdown is rendered to static markup.
+ * react-dom/server is loaded on demand so it stays out of the main bundle.
+ */
+export async function exportHtml(threads: ExportedThread[]): Promise<string> {
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const sections = threads.map(({ thread, messages }) => {
+    const items = transcriptMessages(messages).map(message => {
+      const time = formatTime(message.timestamp);
+      const body = message.role === 'assistant'
+        ? renderToStaticMarkup(createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, message.content))
+        : escapeHtml(message.content);
+      return `<div class="message ${message.role}">` +
+        `<div class="role">${ROLE_LABELS[message.role]}${time ? ` <span class="time">· ${escapeHtml(time)}</span>` : ''}</div>` +
+        `${body}</div>`;
+    });
+    const started = thread.created_at
+      ? `<p class="meta">Started ${escapeHtml(formatTime(thread.created_at))}</p>`
+      : '';
+    return `<section><h1>${escapeHtml(threadTitle(thread))}</h1>${started}${items.join('\n')}</section>`;
+  });
+
+  const title = threads.length === 1 ? threadTitle(threads[0].thread) : 'Chinook conversations';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${sections.join('\n<hr>\n')}
+</body>
+</html>
+`;
+}
+
+// Full fidelity: every stored message, including tool messages and debug_info
+export function exportJson(threads: ExportedThread[]): string {
+  const data: ConversationExport = {
+    format: EXPORT_FORMAT_ID,
+    version: EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    threads,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+export function exportCsv(threads: ExportedThread[]): string {
+  const rows = [['thread_id', 'thread_title', 'message_id', 'role', 'timestamp', 'content']];
+  threads.forEach(({ thread, messages }) => {
+    messages.forEach(message => {
+      rows.push([
+        thread.thread_id,
+        threadTitle(thread),
+        message.id ?? '',
+        message.role,
+        message.timestamp ?? '',
+        message.content,
+      ]);
+    });
+  });
+  return toCsv(rows);
+}
+
+export async function buildExport(format: ExportFormat, threads: ExportedThread[]): Promise<ExportFile> {
+  switch (format) {
+    case 'markdown':
+      return { content: exportMarkdown(threads), mimeType: 'text/markdown', extension: 'md' };
+    case 'html':
+      return { content: await exportHtml(threads), mimeType: 'text/html', extension: 'html' };
+    case 'json':
+      return { content: exportJson(threads), mimeType: 'application/json', extension: 'json' };
+    case 'csv':
+      return { content: exportCsv(threads), mimeType: 'text/csv', extension: 'csv' };
+  }
+}
+
+function isMessage(value: unknown): value is Message {
+  const message = value as Message;
+  return typeof message === 'object' && message !== null &&
+    typeof message.role === 'string' && typeof message.content === 'string';
+}
+
+/**
+ * Parse and validate a JSON export. Throws an Error describing the problem
+ * when the file isn't a conversation export.
+ */
+export function parseConversationExport(text: string): ExportedThread[] {
+  let data: Partial<ConversationExport>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (data?.format !== EXPORT_FORMAT_ID || !Array.isArray(data.threads)) {
+    throw new Error('The file is not a conversation export');
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new Error('The export was made by a newer version of the app');
+  }
+
+  return data.threads.map((entry, index) => {
+    const thread = entry?.thread;
+    if (!thread || typeof thread.thread_id !== 'string' || !Array.isArray(entry.messages)) {
+      throw new Error(`Thread ${index + 1} in the export is malformed`);
+    }
+    if (!entry.messages.every(isMessage)) {
+      throw new Error(`Thread "${threadTitle(thread)}" has malformed messages`);
+    }
+    return { thread, messages: entry.messages };
+  });
+}
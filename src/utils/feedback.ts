@@ -0,0 +1,37 @@
+import type { FeedbackCategory, FeedbackRequest } from '../types/api';
+import type { MessageFeedback } from '../services/storage';
+
+export const FEEDBACK_CATEGORIES: { category: FeedbackCategory; label: string }[] = [
+  { category: 'wrong_sql', label: 'Wrong SQL' },
+  { category: 'wrong_number', label: 'Wrong number' },
+  { category: 'hallucinated_entity', label: 'Hallucinated entity' },
+  { category: 'too_slow', label: 'Too slow' },
+];
+
+export function feedbackCategoryLabel(category: FeedbackCategory): string {
+  return FEEDBACK_CATEGORIES.find(c => c.category === category)?.label ?? category;
+}
+
+// Feedback with the question, answer and tool calls it was given on
+export function toFeedbackRequest(feedback: MessageFeedback): FeedbackRequest {
+  const { answer } = feedback;
+  return {
+    thread_id: feedback.threadId,
+    message_id: answer.id,
+    rating: feedback.rating,
+    category: feedback.category,
+    note: feedback.note.trim() || null,
+    question: feedback.question,
+    answer: answer.content,
+    tool_calls: answer.debug_info?.tool_calls ?? [],
+    model_name: answer.debug_info?.model_name ?? null,
+    answered_at: answer.timestamp,
+    created_at: feedback.createdAt,
+    updated_at: feedback.updatedAt,
+  };
+}
+
+// One JSON object per line, for offline evaluation
+export function exportFeedbackJsonl(feedback: MessageFeedback[]): string {
+  return feedback.map(entry => JSON.stringify(toFeedbackRequest(entry))).join('\n') + '\n';
+}
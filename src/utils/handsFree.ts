@@ -0,0 +1,30 @@
+// 'paused' while the tab is in the background; listening resumes when it's back
+export type HandsFreeMode = 'off' | 'on' | 'paused';
+
+export type HandsFreePhase = 'listening' | 'thinking' | 'speaking' | 'paused';
+
+const EXIT_WORDS = new Set(['stop', 'exit']);
+// Words that may come with an exit word ("okay, stop listening") without making it a question
+const EXIT_FILLER = new Set(['ok', 'okay', 'please', 'now', 'listening', 'hands', 'free', 'handsfree', 'mode']);
+
+/**
+ * Whether a transcript is a request to leave hands-free mode: "stop" or
+ * "exit", alone or with filler. "Stop the music" is still a question.
+ */
+export function isHandsFreeExit(transcript: string): boolean {
+  const words = transcript.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  return words.some(word => EXIT_WORDS.has(word))
+    && words.every(word => EXIT_WORDS.has(word) || EXIT_FILLER.has(word));
+}
+
+// What hands-free mode is doing, for its status bar; listening covers the gaps between turns
+export function handsFreePhase(
+  mode: HandsFreeMode,
+  { thinking, speaking }: { thinking: boolean; speaking: boolean }
+): HandsFreePhase | null {
+  if (mode === 'off') return null;
+  if (mode === 'paused') return 'paused';
+  if (thinking) return 'thinking';
+  if (speaking) return 'speaking';
+  return 'listening';
+}
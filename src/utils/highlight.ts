@@ -0,0 +1,51 @@
+import { tokenizeSql, looksLikeSql } from './sql';
+import type { SqlToken } from './sql';
+
+export type CodeToken = SqlToken;
+
+const JSON_TOKEN = /("(?:[^"\\]|\\.)*")(\s*:)?|(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)|\b(true|false|null)\b|([{}[\],:])|(\s+)|(.)/g;
+
+function isJson(code: string): boolean {
+  if (!/^\s*[[{]/.test(code)) return false;
+  try {
+    JSON.parse(code);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function tokenizeJson(code: string): CodeToken[] {
+  const tokens: CodeToken[] = [];
+  for (const match of code.matchAll(JSON_TOKEN)) {
+    const [, string, colon, number, literal, punctuation, space, other] = match;
+    if (string) {
+      // Object keys read differently from string values
+      tokens.push({ type: colon ? 'identifier' : 'string', text: string });
+      if (colon) tokens.push({ type: 'punctuation', text: colon });
+    } else if (number) {
+      tokens.push({ type: 'number', text: number });
+    } else if (literal) {
+      tokens.push({ type: 'keyword', text: literal });
+    } else if (punctuation) {
+      tokens.push({ type: 'punctuation', text: punctuation });
+    } else {
+      tokens.push({ type: space ? 'whitespace' : 'operator', text: space ?? other });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Tokens for syntax highlighting, or null for languages without a
+ * highlighter (shown as plain text). Unlabelled blocks are highlighted when
+ * they read as SQL or parse as JSON.
+ */
+export function highlightCode(code: string, language: string | null): CodeToken[] | null {
+  const lang = language?.toLowerCase() ?? null;
+  if (lang === 'sql' || lang === 'sqlite' || (lang === null && looksLikeSql(code))) {
+    return tokenizeSql(code);
+  }
+  if (lang === 'json' || (lang === null && isJson(code))) return tokenizeJson(code);
+  return null;
+}
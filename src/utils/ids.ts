@@ -0,0 +1,10 @@
+/**
+ * Generate a client-side identifier
+ * Falls back to a timestamp+random id where crypto.randomUUID is unavailable (insecure contexts)
+ */
+export function createClientId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
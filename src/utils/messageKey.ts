@@ -0,0 +1,16 @@
+import type { Message } from '../types/api';
+
+/**
+ * Stable key for a message, shared by the search index and the rendered
+ * message list so a search result can be scrolled into view.
+ * Prefers the server id, then the client id of locally created messages.
+ */
+export function getMessageKey(message: Message): string {
+  if (message.id) {
+    return `id:${message.id}`;
+  }
+  if (message.client_id) {
+    return `client:${message.client_id}`;
+  }
+  return `at:${message.role}:${message.timestamp ?? ''}:${message.content.length}`;
+}
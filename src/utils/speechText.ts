@@ -0,0 +1,181 @@
+import { parseToolOutput } from './toolOutput';
+import type { TableCell, TableData } from './toolOutput';
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const CURRENCIES: Record<string, [string, string]> = {
+  '$': ['dollar', 'cent'],
+  '€': ['euro', 'cent'],
+  '£': ['pound', 'penny'],
+};
+
+export interface SpeechSentence {
+  // What is said
+  text: string;
+  // The same sentence as it reads on screen, for highlighting it while spoken
+  display: string;
+}
+
+// Sentences longer than this are split again at commas, then spaces
+const MAX_SENTENCE_CHARS = 240;
+
+// Abbreviations whose period doesn't end a sentence
+const ABBREVIATIONS = /\b(?:e\.g|i\.e|etc|vs|approx|Mr|Mrs|Ms|Dr|St|No|Inc|Ltd|Jr|Sr)\.$/i;
+
+const TABLE_SEPARATOR = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+function plural(count: number, word: string): string {
+  if (count === 1) return `1 ${word}`;
+  return `${count} ${word === 'penny' ? 'pence' : `${word}s`}`;
+}
+
+function spokenCell(cell: TableCell): string {
+  if (typeof cell === 'number') return spokenNumber(cell);
+  return String(cell ?? '').replace(/[*_`]/g, '').trim();
+}
+
+// Long decimals are rounded; speech engines read every digit otherwise
+function spokenNumber(value: number): string {
+  if (Number.isInteger(value)) return String(value);
+  return String(Number(value.toFixed(Math.abs(value) >= 100 ? 1 : 2)));
+}
+
+/**
+ * One or two sentences for a result table instead of reading every cell:
+ * "5 rows; top is AC/DC with 42 tracks."
+ */
+function summarizeTable(table: TableData): string {
+  const { columns, rows } = table;
+  if (rows.length === 0) return 'An empty table.';
+  const count = rows.length === 1 ? 'One row' : `${rows.length} rows`;
+  const first = rows[0];
+  const label = spokenCell(first[0]);
+  if (columns.length < 2) return `${count}, starting with ${label}.`;
+
+  const value = spokenCell(first[1]);
+  const unit = columns[1].replace(/[*_`]/g, '').trim().toLowerCase();
+  if (rows.length === 1) return `${count}: ${label} with ${value} ${unit}.`;
+  return `${count}; top is ${label} with ${value} ${unit}.`;
+}
+
+function replaceTables(text: string): string {
+  const lines = text.split('\n');
+  const output: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1].trim())) {
+      let end = i + 2;
+      while (end < lines.length && lines[end].includes('|')) end++;
+      const table = parseToolOutput(lines.slice(i, end).join('\n'));
+      if (table) output.push('', summarizeTable(table), '');
+      i = end - 1;
+      continue;
+    }
+    output.push(lines[i]);
+  }
+  return output.join('\n');
+}
+
+// Fenced code blocks (SQL, JSON) are skipped entirely
+function stripCodeBlocks(text: string): string {
+  return text.replace(/^(```|~~~)[^\n]*\n[\s\S]*?(?:^\1[^\n]*$|(?![\s\S]))/gm, '');
+}
+
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/\S+/g, 'a link')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/gm, '$1.')
+    .replace(/^\s{0,3}>\s?/gm, '')
+    .replace(/^\s{0,3}([-*_])(\s*\1){2,}\s*$/gm, '')
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/gm, '')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/[*_#|]/g, ' ');
+}
+
+function spokenDate(year: string, month: string, day?: string, time?: string): string {
+  const name = MONTHS[Number(month) - 1];
+  if (!name) return [year, month, day].filter(Boolean).join('-');
+  const date = day ? `${name} ${Number(day)}, ${year}` : `${name} ${year}`;
+  return time && !/^00:00(:00)?$/.test(time) ? `${date} at ${time.slice(0, 5)}` : date;
+}
+
+function spokenAmount(symbol: string, amount: string, suffix = ''): string {
+  const [unit, fraction] = CURRENCIES[symbol];
+  const [whole, decimals = ''] = amount.split('.');
+  const units = Number(whole.replace(/,/g, ''));
+  const cents = Math.round(Number(`0.${decimals || '0'}`) * 100);
+  const scale = suffix ? ` ${{ k: 'thousand', m: 'million', b: 'billion' }[suffix.toLowerCase()]}` : '';
+  if (scale) return `${whole}${decimals ? `.${decimals}` : ''}${scale} ${unit}s`;
+  if (units === 0 && cents > 0) return plural(cents, fraction);
+  const main = `${whole} ${units === 1 ? unit : `${unit}s`}`;
+  return cents > 0 ? `${main} and ${plural(cents, fraction)}` : main;
+}
+
+function naturalize(text: string): string {
+  return text
+    // 2009-01-01, 2009-01-01T10:30:00, 2013-12
+    .replace(/\b(\d{4})-(\d{2})(?:-(\d{2}))?(?:[T ](\d{2}:\d{2}(?::\d{2})?)(?:\.\d+)?Z?)?\b/g,
+      (_, year: string, month: string, day?: string, time?: string) => spokenDate(year, month, day, time))
+    // $1,234.56, €0.99, $1.2M
+    .replace(/([$€£])\s?(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)([kKmMbB]\b)?/g,
+      (_, symbol: string, amount: string, suffix?: string) => spokenAmount(symbol, amount, suffix))
+    .replace(/\b(\d+\.\d{3,})\b/g, (match) => spokenNumber(Number(match)))
+    .replace(/\s&\s/g, ' and ')
+    .replace(/\s+([.,;:!?])/g, '$1');
+}
+
+// Each line (list item, heading) ends a sentence, as do . ! and ?
+function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  for (const paragraph of text.split(/\n\s*\n|\n(?=\S)/)) {
+    const flat = paragraph.replace(/\s+/g, ' ').trim();
+    if (!flat) continue;
+    let current = '';
+    for (const part of flat.split(/(?<=[.!?])\s+/)) {
+      current = current ? `${current} ${part}` : part;
+      if (!ABBREVIATIONS.test(current)) {
+        sentences.push(...splitLong(current));
+        current = '';
+      }
+    }
+    if (current) sentences.push(...splitLong(current));
+  }
+  // Drop fragments with nothing to say, e.g. a leftover "."
+  return sentences.filter(sentence => /[\p{L}\p{N}]/u.test(sentence));
+}
+
+function splitLong(sentence: string): string[] {
+  if (sentence.length <= MAX_SENTENCE_CHARS) return [sentence];
+  const parts: string[] = [];
+  let rest = sentence;
+  while (rest.length > MAX_SENTENCE_CHARS) {
+    const head = rest.slice(0, MAX_SENTENCE_CHARS);
+    const cut = Math.max(head.lastIndexOf(', '), head.lastIndexOf('; '));
+    const end = cut > MAX_SENTENCE_CHARS / 3 ? cut + 1 : head.lastIndexOf(' ');
+    const at = end > 0 ? end : MAX_SENTENCE_CHARS;
+    parts.push(rest.slice(0, at).trim());
+    rest = rest.slice(at).trim();
+  }
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+/**
+ * Turn an assistant answer (markdown) into sentences that read well aloud:
+ * code blocks are skipped, tables become a short summary, markdown syntax
+ * is dropped and dates, amounts and long decimals are written out. Playback
+ * goes sentence by sentence, so it can start sooner and skip between them.
+ */
+export function speechSentences(markdown: string): SpeechSentence[] {
+  const text = stripCodeBlocks(markdown.replace(/\r\n/g, '\n'));
+  return splitSentences(stripMarkdown(replaceTables(text)))
+    .map(display => ({ text: naturalize(display), display }));
+}
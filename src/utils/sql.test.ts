@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { formatSql } from './sql';
+
+describe('formatSql', () => {
+  it.each([
+    [
+      'select Name, Composer from Track where GenreId = 1 and Milliseconds > 300000',
+      'SELECT Name,\n  Composer\nFROM Track\nWHERE GenreId = 1\n  AND Milliseconds > 300000',
+    ],
+    [
+      "SELECT strftime('%Y-%m', InvoiceDate) AS month, SUM(Total) AS revenue FROM Invoice GROUP BY month",
+      "SELECT strftime('%Y-%m', InvoiceDate) AS month,\n  SUM(Total) AS revenue\nFROM Invoice\nGROUP BY month",
+    ],
+    [
+      'SELECT COALESCE(BillingState, BillingCountry, \'?\') AS region FROM Invoice',
+      "SELECT COALESCE(BillingState, BillingCountry, '?') AS region\nFROM Invoice",
+    ],
+    [
+      'SELECT Total FROM Invoice WHERE Total BETWEEN 5 AND 10 OR Total > 20',
+      'SELECT Total\nFROM Invoice\nWHERE Total BETWEEN 5 AND 10\n  OR Total > 20',
+    ],
+  ])('formats %s', (sql, expected) => {
+    expect(formatSql(sql)).toBe(expected);
+  });
+});
@@ -0,0 +1,305 @@
+import type { AgentDebugInfo, ToolCallInfo } from '../types/api';
+
+export interface SqlQuery {
+  toolCallId: string;
+  toolName: string;
+  sql: string;
+  output: string | null;
+}
+
+export type SqlTokenType =
+  | 'keyword'
+  | 'function'
+  | 'string'
+  | 'number'
+  | 'comment'
+  | 'identifier'
+  | 'operator'
+  | 'punctuation'
+  | 'whitespace';
+
+export interface SqlToken {
+  type: SqlTokenType;
+  text: string;
+}
+
+const KEYWORDS = new Set([
+  'ALL', 'ALTER', 'AND', 'AS', 'ASC', 'BETWEEN', 'BY', 'CASE', 'CAST', 'COLLATE', 'CREATE',
+  'CROSS', 'DELETE', 'DESC', 'DISTINCT', 'DROP', 'ELSE', 'END', 'ESCAPE', 'EXCEPT', 'EXISTS',
+  'EXPLAIN', 'FALSE', 'FROM', 'FULL', 'GLOB', 'GROUP', 'HAVING', 'IN', 'INDEX', 'INNER',
+  'INSERT', 'INTERSECT', 'INTO', 'IS', 'JOIN', 'LEFT', 'LIKE', 'LIMIT', 'NATURAL', 'NOT',
+  'NULL', 'OFFSET', 'ON', 'OR', 'ORDER', 'OUTER', 'PRAGMA', 'RECURSIVE', 'RIGHT', 'SELECT',
+  'SET', 'TABLE', 'THEN', 'TRUE', 'UNION', 'UPDATE', 'USING', 'VALUES', 'VIEW', 'WHEN',
+  'WHERE', 'WITH',
+]);
+
+// Keywords that start a new line when formatting
+const CLAUSE_KEYWORDS = new Set([
+  'SELECT', 'FROM', 'WHERE', 'GROUP', 'ORDER', 'HAVING', 'LIMIT', 'OFFSET', 'UNION',
+  'INTERSECT', 'EXCEPT', 'VALUES', 'SET', 'WITH', 'JOIN', 'LEFT', 'RIGHT', 'INNER',
+  'OUTER', 'FULL', 'CROSS', 'NATURAL', 'INSERT', 'UPDATE', 'DELETE',
+]);
+
+// Join modifiers: "LEFT OUTER JOIN" breaks once, before LEFT
+const JOIN_MODIFIERS = new Set(['LEFT', 'RIGHT', 'INNER', 'OUTER', 'FULL', 'CROSS', 'NATURAL']);
+
+const TOKEN_PATTERNS: [SqlTokenType, RegExp][] = [
+  ['whitespace', /^\s+/],
+  ['comment', /^(--[^\n]*|\/\*[\s\S]*?(\*\/|$))/],
+  ['string', /^'(?:[^']|'')*'?/],
+  // Quoted identifiers: "col", `col`, [col]
+  ['identifier', /^("(?:[^"]|"")*"?|`[^`]*`?|\[[^\]]*\]?)/],
+  ['number', /^\d+(\.\d+)?([eE][+-]?\d+)?/],
+  ['identifier', /^[\p{L}_][\p{L}\p{N}_$]*/u],
+  ['operator', /^(<=|>=|<>|!=|==|\|\||[-+*/%<>=~&|])/],
+  ['punctuation', /^[(),;.]/],
+];
+
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let rest = sql;
+  while (rest.length > 0) {
+    let matched = false;
+    for (const [type, pattern] of TOKEN_PATTERNS) {
+      const match = rest.match(pattern);
+      if (!match) continue;
+      tokens.push({ type, text: match[0] });
+      rest = rest.slice(match[0].length);
+      matched = true;
+      break;
+    }
+    if (!matched) {
+      tokens.push({ type: 'operator', text: rest[0] });
+      rest = rest.slice(1);
+    }
+  }
+
+  // Classify words: reserved words are keywords, words before "(" are function calls
+  tokens.forEach((token, index) => {
+    if (token.type !== 'identifier' || /^["`[]/.test(token.text)) return;
+    if (KEYWORDS.has(token.text.toUpperCase())) {
+      token.type = 'keyword';
+      return;
+    }
+    const next = tokens.slice(index + 1).find(t => t.type !== 'whitespace');
+    if (next?.text === '(') token.type = 'function';
+  });
+  return tokens;
+}
+
+/**
+ * Reformat a query with one clause per line, one selected column per line
+ * and indented AND/OR conditions. Keywords are upper-cased; everything else
+ * (including comments) is kept as written.
+ */
+export function formatSql(sql: string): string {
+  const tokens = tokenizeSql(sql.trim()).filter(t => t.type !== 'whitespace');
+  let output = '';
+  let depth = 0;
+  let clause = '';
+  // Paren depth the clause started at; commas deeper down are in function calls
+  let clauseDepth = 0;
+  let previous: SqlToken | null = null;
+  // BETWEEN x AND y: that AND isn't a condition separator
+  let inBetween = false;
+
+  const newline = (extraIndent = 0) => {
+    output = output.trimEnd();
+    if (output) output += '\n' + '  '.repeat(depth + extraIndent);
+  };
+
+  tokens.forEach(token => {
+    const text = token.type === 'keyword' ? token.text.toUpperCase() : token.text;
+
+    if (token.type === 'keyword') {
+      const isJoinContinuation = JOIN_MODIFIERS.has(previous?.text.toUpperCase() ?? '') &&
+        (text === 'JOIN' || text === 'OUTER');
+      if (CLAUSE_KEYWORDS.has(text) && !isJoinContinuation) {
+        newline();
+        clause = text;
+        clauseDepth = depth;
+      } else if ((text === 'AND' && !inBetween) || text === 'OR') {
+        newline(1);
+      }
+      if (text === 'BETWEEN') inBetween = true;
+      if (text === 'AND') inBetween = false;
+    }
+
+    const noSpaceBefore = [',', ')', ';', '.'].includes(text) ||
+      (text === '(' && previous?.type === 'function');
+    const noSpaceAfterPrevious = previous?.text === '(' || previous?.text === '.';
+    if (output && !/\n *$/.test(output) && !noSpaceBefore && !noSpaceAfterPrevious) {
+      output += ' ';
+    }
+    output += text;
+
+    if (text === '(') depth++;
+    if (text === ')') depth = Math.max(0, depth - 1);
+    // One selected column per line
+    if (text === ',' && clause === 'SELECT' && depth === clauseDepth) newline(1);
+    if (token.type === 'comment' && text.startsWith('--')) newline();
+    previous = { type: token.type, text };
+  });
+  return output.trim();
+}
+
+// Unquote "name", `name` and [name]
+function identifierName(text: string): string {
+  return /^["`[]/.test(text) ? text.slice(1, -1) : text;
+}
+
+/**
+ * Result column names from the top-level SELECT list: aliases where given,
+ * otherwise the column name or expression text. Returns null when they can't
+ * be known without the schema (e.g. `SELECT *`).
+ */
+export function selectColumnNames(sql: string): string[] | null {
+  const tokens = tokenizeSql(sql).filter(t => t.type !== 'whitespace' && t.type !== 'comment');
+  let depth = 0;
+  let start = -1;
+  let end = tokens.length;
+  for (let i = 0; i < tokens.length; i++) {
+    const { text, type } = tokens[i];
+    if (text === '(') depth++;
+    if (text === ')') depth--;
+    if (depth !== 0 || type !== 'keyword') continue;
+    const keyword = text.toUpperCase();
+    if (start < 0 && keyword === 'SELECT') {
+      start = i + 1;
+    } else if (start >= 0 && ['FROM', 'WHERE', 'GROUP', 'ORDER', 'LIMIT', 'UNION'].includes(keyword)) {
+      end = i;
+      break;
+    }
+  }
+  if (start < 0) return null;
+
+  // Split the select list on top-level commas
+  const items: SqlToken[][] = [[]];
+  depth = 0;
+  tokens.slice(start, end).forEach(token => {
+    if (token.text === '(') depth++;
+    if (token.text === ')') depth--;
+    if (token.text === ',' && depth === 0) {
+      items.push([]);
+    } else if (!(items.length === 1 && items[0].length === 0 && /^(DISTINCT|ALL)$/i.test(token.text))) {
+      items[items.length - 1].push(token);
+    }
+  });
+
+  const names: string[] = [];
+  for (const item of items) {
+    if (item.length === 0 || item[item.length - 1].text === '*') return null;
+    const last = item[item.length - 1];
+    const beforeLast = item[item.length - 2];
+    if (item.length >= 2 && beforeLast.text.toUpperCase() === 'AS') {
+      names.push(identifierName(last.text));
+    } else if (item.length === 1 || (beforeLast?.text === '.' && item.length === 3)) {
+      // column or table.column
+      names.push(identifierName(last.text));
+    } else if (last.type === 'identifier' && beforeLast.type !== 'operator' && beforeLast.text !== '.') {
+      // Implicit alias: COUNT(*) total
+      names.push(identifierName(last.text));
+    } else {
+      names.push(item.map(t => t.text).join(''));
+    }
+  }
+  return names;
+}
+
+/**
+ * Tables a query reads: names after FROM and JOIN (and comma-separated FROM
+ * lists), unquoted, in order of first use. CTE names are left out.
+ */
+export function tableNames(sql: string): string[] {
+  const tokens = tokenizeSql(sql).filter(t => t.type !== 'whitespace' && t.type !== 'comment');
+  const names: string[] = [];
+  const ctes = new Set<string>();
+  let depth = 0;
+  // Depth of the FROM list being read, or -1 outside one
+  let fromDepth = -1;
+  let expectTable = false;
+
+  tokens.forEach((token, index) => {
+    const upper = token.text.toUpperCase();
+    if (token.text === '(') depth++;
+    if (token.text === ')') depth--;
+    if (token.type === 'keyword' && upper === 'AS' && tokens[index + 1]?.text === '(') {
+      // WITH name AS (...)
+      ctes.add(identifierName(tokens[index - 1]?.text ?? '').toLowerCase());
+    }
+    if (token.type === 'keyword') {
+      if (upper === 'FROM' || upper === 'JOIN') {
+        expectTable = true;
+        fromDepth = depth;
+        return;
+      }
+      if (CLAUSE_KEYWORDS.has(upper) && !JOIN_MODIFIERS.has(upper)) fromDepth = -1;
+    }
+    if (token.text === ',' && depth === fromDepth) {
+      expectTable = true;
+      return;
+    }
+    if (!expectTable) return;
+    expectTable = false;
+    if (token.type !== 'identifier') return;
+    // schema.table
+    const name = tokens[index + 1]?.text === '.' && tokens[index + 2]?.type === 'identifier'
+      ? tokens[index + 2].text
+      : token.text;
+    const table = identifierName(name);
+    if (!ctes.has(table.toLowerCase()) && !names.some(n => n.toLowerCase() === table.toLowerCase())) {
+      names.push(table);
+    }
+  });
+  return names;
+}
+
+const SQL_ARG_KEYS = ['query', 'sql', 'sql_query', 'statement'];
+const SQL_START = /^\s*(\(\s*)*(SELECT|WITH|INSERT|UPDATE|DELETE|PRAGMA|EXPLAIN|CREATE|DROP|ALTER)\b/i;
+// Query checker tools only validate a query; the panel shows what actually ran
+const VALIDATION_TOOL = /check/i;
+const SQL_TOOL = /sql|db|database/i;
+
+export function looksLikeSql(text: string): boolean {
+  return SQL_START.test(text.replace(/^\s*(--[^\n]*\n|\/\*[\s\S]*?\*\/)\s*/g, ''));
+}
+
+// The SQL a tool call was given, or null when none of its arguments is a query
+export function toolCallSql(call: ToolCallInfo): string | null {
+  const args = call.args ?? {};
+  // A "query" argument of a non-database tool (e.g. web search) isn't SQL
+  const sqlTool = SQL_TOOL.test(call.tool_name);
+  return SQL_ARG_KEYS.map(key => args[key]).find(
+    (value): value is string =>
+      typeof value === 'string' && value.trim().length > 0 && (sqlTool || looksLikeSql(value))
+  ) ?? Object.values(args).find(
+    (value): value is string => typeof value === 'string' && looksLikeSql(value)
+  ) ?? null;
+}
+
+/**
+ * SQL statements executed by the agent: the query argument of tool calls like
+ * `sql_db_query`, or any string argument that reads as SQL.
+ */
+export function extractSqlQueries(debugInfo: AgentDebugInfo | null | undefined): SqlQuery[] {
+  if (!debugInfo?.tool_calls) return [];
+  const queries: SqlQuery[] = [];
+  debugInfo.tool_calls.forEach(call => {
+    if (VALIDATION_TOOL.test(call.tool_name)) return;
+    const sql = toolCallSql(call);
+    if (sql) {
+      queries.push({
+        toolCallId: call.tool_call_id,
+        toolName: call.tool_name,
+        sql: sql.trim(),
+        output: call.output,
+      });
+    }
+  });
+  return queries;
+}
+
+// Follow-up message for "Ask again with this SQL"
+export function sqlFollowUpPrompt(sql: string): string {
+  return `Run this SQL query and answer my question using its results:\n\n\`\`\`sql\n${sql.trim()}\n\`\`\``;
+}
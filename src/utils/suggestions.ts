@@ -0,0 +1,66 @@
+import type { AgentDebugInfo } from '../types/api';
+import { extractSqlQueries, tableNames } from './sql';
+
+const MAX_SUGGESTIONS = 4;
+
+const TOP_N_PATTERN = /\btop\s+(\d+)\b/i;
+const LIMIT_PATTERN = /\bLIMIT\s+(\d+)\b/i;
+const YEAR_PATTERN = /\b(year|yearly|annual|annually|month|monthly|quarter|20\d\d|19\d\d)\b|strftime|InvoiceDate/i;
+const COUNTRY_PATTERN = /\b(country|countries|BillingCountry|city|state)\b/i;
+const GENRE_PATTERN = /\bgenres?\b|GenreId/i;
+const AGGREGATE_PATTERN = /\b(SUM|COUNT|AVG|MAX|MIN)\s*\(/i;
+
+// Backend suggestions win; empty or missing lists fall back to local heuristics
+export function backendSuggestions(suggestions: string[] | null | undefined): string[] | null {
+  const cleaned = (suggestions ?? []).map(s => s.trim()).filter(Boolean);
+  return cleaned.length > 0 ? cleaned.slice(0, MAX_SUGGESTIONS) : null;
+}
+
+/**
+ * Follow-up questions for an answer, guessed from the question and the
+ * tables its SQL touched: other sizes for "top N" results, breakdowns by
+ * year, country or genre when the data has them, and a drill-down into the
+ * people behind totals.
+ */
+export function suggestFollowUps(question: string, debugInfo: AgentDebugInfo | null | undefined): string[] {
+  const queries = extractSqlQueries(debugInfo);
+  if (queries.length === 0) return [];
+  const sql = queries.map(query => query.sql).join('\n');
+  const text = `${question}\n${sql}`;
+  const tables = new Set(queries.flatMap(query => tableNames(query.sql)).map(t => t.toLowerCase()));
+  const has = (...names: string[]) => names.some(name => tables.has(name.toLowerCase()));
+  const suggestions: string[] = [];
+
+  // Result size: "top 5" -> top 10, top 10 -> top 20; unlimited aggregates -> top 10
+  const limit = Number(question.match(TOP_N_PATTERN)?.[1] ?? sql.match(LIMIT_PATTERN)?.[1] ?? 0);
+  if (limit > 0) {
+    suggestions.push(`Show the top ${limit >= 10 ? limit * 2 : 10} instead`);
+  } else if (AGGREGATE_PATTERN.test(sql) && /GROUP\s+BY/i.test(sql)) {
+    suggestions.push('Show only the top 10');
+  }
+
+  const sales = has('Invoice', 'InvoiceLine');
+  if (sales && !YEAR_PATTERN.test(text)) {
+    suggestions.push('Break this down by year');
+  }
+  if ((sales || has('Customer')) && !COUNTRY_PATTERN.test(text)) {
+    suggestions.push('Break this down by country');
+  }
+  if (has('Track', 'InvoiceLine', 'PlaylistTrack') && !GENRE_PATTERN.test(text)) {
+    suggestions.push('Break this down by genre');
+  }
+  if (sales && YEAR_PATTERN.test(text)) {
+    suggestions.push('Compare with the previous year');
+  }
+  if (sales && !has('Customer')) {
+    suggestions.push('Which customers contributed the most?');
+  }
+  if (sales && has('Customer') && !has('Employee')) {
+    suggestions.push('Compare this across sales support agents');
+  }
+  if (has('Artist', 'Album', 'Track', 'Genre') && !sales) {
+    suggestions.push('Which of these sold the most?');
+  }
+
+  return suggestions.slice(0, MAX_SUGGESTIONS);
+}
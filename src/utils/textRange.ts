@@ -0,0 +1,35 @@
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+/**
+ * DOM range covering `text` inside `root`, comparing letters and digits
+ * only, so markdown rendering (emphasis, list bullets, spacing) and
+ * punctuation differences don't prevent a match. Null when not found.
+ */
+export function findTextRange(root: Node, text: string): Range | null {
+  const needle = Array.from(text).filter(char => WORD_CHAR.test(char)).join('').toLowerCase();
+  if (!needle) return null;
+
+  let haystack = '';
+  const positions: { node: Text; offset: number }[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    const value = node.data;
+    for (let offset = 0; offset < value.length; offset++) {
+      const char = value[offset];
+      if (!WORD_CHAR.test(char)) continue;
+      // Lower-casing can lengthen a character; keep positions aligned
+      const lower = char.toLowerCase();
+      haystack += lower;
+      for (let i = 0; i < lower.length; i++) positions.push({ node, offset });
+    }
+  }
+
+  const start = haystack.indexOf(needle);
+  if (start < 0) return null;
+  const first = positions[start];
+  const last = positions[start + needle.length - 1];
+  const range = document.createRange();
+  range.setStart(first.node, first.offset);
+  range.setEnd(last.node, last.offset + 1);
+  return range;
+}
@@ -0,0 +1,268 @@
+export type TableCell = string | number | boolean | null;
+
+export interface TableData {
+  columns: string[];
+  rows: TableCell[][];
+}
+
+class ParseError extends Error {}
+
+// Constructor call in a repr, e.g. Decimal('9.99')
+class PythonCall {
+  name: string;
+  args: unknown[];
+
+  constructor(name: string, args: unknown[]) {
+    this.name = name;
+    this.args = args;
+  }
+}
+
+const PYTHON_ESCAPES: Record<string, string> = {
+  n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '"': '"', '0': '\0',
+};
+
+/**
+ * Parse a Python literal as printed by `repr()`: lists, tuples, dicts,
+ * strings, numbers, None/True/False and constructor calls such as
+ * `Decimal('9.99')` or `datetime.date(2009, 1, 1)`. This is the shape SQL
+ * tools return rows in (`[('AC/DC', 2), ...]`).
+ */
+function parsePythonLiteral(text: string): unknown {
+  let pos = 0;
+
+  const skipSpace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const expect = (char: string) => {
+    skipSpace();
+    if (text[pos] !== char) throw new ParseError(`Expected "${char}" at ${pos}`);
+    pos++;
+  };
+
+  // Comma-separated values up to `close`, allowing a trailing comma
+  const parseSequence = (close: string, parseItem: () => unknown): unknown[] => {
+    const items: unknown[] = [];
+    skipSpace();
+    while (text[pos] !== close) {
+      items.push(parseItem());
+      skipSpace();
+      if (text[pos] === ',') {
+        pos++;
+        skipSpace();
+      } else if (text[pos] !== close) {
+        throw new ParseError(`Expected "," or "${close}" at ${pos}`);
+      }
+    }
+    pos++;
+    return items;
+  };
+
+  const parseString = (): string => {
+    const quote = text[pos++];
+    let result = '';
+    while (pos < text.length && text[pos] !== quote) {
+      if (text[pos] === '\\') {
+        const next = text[pos + 1];
+        if (next === 'x' || next === 'u') {
+          const length = next === 'x' ? 2 : 4;
+          result += String.fromCharCode(parseInt(text.slice(pos + 2, pos + 2 + length), 16));
+          pos += 2 + length;
+        } else {
+          result += PYTHON_ESCAPES[next] ?? `\\${next}`;
+          pos += 2;
+        }
+      } else {
+        result += text[pos++];
+      }
+    }
+    if (pos >= text.length) throw new ParseError('Unterminated string');
+    pos++;
+    return result;
+  };
+
+  const parseValue = (): unknown => {
+    skipSpace();
+    const char = text[pos];
+    if (char === '[') {
+      pos++;
+      return parseSequence(']', parseValue);
+    }
+    if (char === '(') {
+      pos++;
+      return parseSequence(')', parseValue);
+    }
+    if (char === '{') {
+      pos++;
+      const entries = parseSequence('}', () => {
+        const key = parseValue();
+        expect(':');
+        return [String(key), parseValue()];
+      }) as [string, unknown][];
+      return Object.fromEntries(entries);
+    }
+    if (char === "'" || char === '"') return parseString();
+
+    const number = text.slice(pos).match(/^-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+    if (number) {
+      pos += number[0].length;
+      return Number(number[0]);
+    }
+
+    const word = text.slice(pos).match(/^[A-Za-z_][\w.]*/);
+    if (!word) throw new ParseError(`Unexpected character at ${pos}`);
+    pos += word[0].length;
+    if (word[0] === 'None') return null;
+    if (word[0] === 'True') return true;
+    if (word[0] === 'False') return false;
+    skipSpace();
+    if (text[pos] !== '(') throw new ParseError(`Unknown name ${word[0]}`);
+    pos++;
+    return new PythonCall(word[0], parseSequence(')', parseValue));
+  };
+
+  const value = parseValue();
+  skipSpace();
+  if (pos < text.length) throw new ParseError(`Unexpected trailing text at ${pos}`);
+  return value;
+}
+
+const pad = (n: unknown) => String(n).padStart(2, '0');
+
+function toCell(value: unknown): TableCell {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (value instanceof PythonCall) {
+    const { name, args } = value;
+    if (/(^|\.)Decimal$/.test(name) && args.length === 1) return Number(args[0]);
+    if (/(^|\.)date$/.test(name) && args.length === 3) {
+      return `${args[0]}-${pad(args[1])}-${pad(args[2])}`;
+    }
+    if (/(^|\.)datetime$/.test(name) && args.length >= 3) {
+      const [year, month, day, hour = 0, minute = 0, second = 0] = args;
+      return `${year}-${pad(month)}-${pad(day)} ${pad(hour)}:${pad(minute)}:${pad(second)}`;
+    }
+    return `${name}(${args.map(arg => String(toCell(arg))).join(', ')})`;
+  }
+  return JSON.stringify(value);
+}
+
+// Positional rows get generic column names
+function positionalColumns(count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `Column ${i + 1}`);
+}
+
+// Rows from a list of tuples/arrays, objects or scalars
+function rowsFromList(items: unknown[]): TableData | null {
+  if (items.length === 0) return null;
+
+  if (items.every(item => Array.isArray(item))) {
+    const width = Math.max(...(items as unknown[][]).map(item => item.length));
+    if (width === 0) return null;
+    return {
+      columns: positionalColumns(width),
+      rows: (items as unknown[][]).map(item =>
+        Array.from({ length: width }, (_, i) => toCell(item[i]))
+      ),
+    };
+  }
+
+  if (items.every(item => typeof item === 'object' && item !== null && !(item instanceof PythonCall))) {
+    const columns: string[] = [];
+    items.forEach(item => {
+      Object.keys(item as object).forEach(key => {
+        if (!columns.includes(key)) columns.push(key);
+      });
+    });
+    if (columns.length === 0) return null;
+    return {
+      columns,
+      rows: items.map(item => columns.map(key => toCell((item as Record<string, unknown>)[key]))),
+    };
+  }
+
+  return { columns: ['Value'], rows: items.map(item => [toCell(item)]) };
+}
+
+function splitMarkdownRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+const MARKDOWN_SEPARATOR = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+function parseMarkdownTable(text: string): TableData | null {
+  const lines = text.split('\n').map(line => line.trim());
+  const separator = lines.findIndex((line, i) => i > 0 && MARKDOWN_SEPARATOR.test(line));
+  if (separator < 0 || !lines[separator - 1].includes('|')) return null;
+
+  const columns = splitMarkdownRow(lines[separator - 1]);
+  const rows: TableCell[][] = [];
+  for (const line of lines.slice(separator + 1)) {
+    if (!line.includes('|')) break;
+    const cells = splitMarkdownRow(line);
+    rows.push(columns.map((_, i) => {
+      const cell = cells[i] ?? '';
+      return cell !== '' && !isNaN(Number(cell)) ? Number(cell) : cell;
+    }));
+  }
+  return { columns, rows };
+}
+
+function parseJson(text: string): TableData | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (Array.isArray(value)) return rowsFromList(value);
+  // {"rows": [...]} style wrappers
+  if (typeof value === 'object' && value !== null) {
+    const list = Object.values(value).find(Array.isArray);
+    if (list) return rowsFromList(list);
+  }
+  return null;
+}
+
+function parsePythonRows(text: string): TableData | null {
+  try {
+    const value = parsePythonLiteral(text);
+    return Array.isArray(value) ? rowsFromList(value) : null;
+  } catch (err) {
+    if (err instanceof ParseError) return null;
+    throw err;
+  }
+}
+
+/**
+ * Turn a tool's text output into rows and columns. Understands JSON arrays,
+ * Python tuple lists and markdown tables; returns null for anything else so
+ * the caller can show the raw text.
+ */
+export function parseToolOutput(output: string | null): TableData | null {
+  const text = output?.trim();
+  if (!text) return null;
+  if (text.startsWith('[') || text.startsWith('{')) {
+    return parseJson(text) ?? parsePythonRows(text);
+  }
+  if (text.startsWith('(')) return parsePythonRows(`[${text}]`);
+  return parseMarkdownTable(text);
+}
+
+/**
+ * Use column names (e.g. from the query's SELECT list) when they fit the
+ * rows; positional results otherwise keep their generic names.
+ */
+export function withColumnNames(data: TableData, names: string[] | null): TableData {
+  if (!names || names.length !== data.columns.length) return data;
+  const positional = data.columns.every((column, i) => column === `Column ${i + 1}`);
+  return positional ? { ...data, columns: names } : data;
+}
@@ -0,0 +1,45 @@
+import type { Message } from '../types/api';
+import type { AnswerVariants } from '../services/storage';
+import { getMessageKey } from './messageKey';
+
+export interface FoldedMessages {
+  messages: Message[];
+  // Variant group of a displayed answer, by message key
+  variantsByKey: Map<string, AnswerVariants>;
+}
+
+/**
+ * Fold regenerated answers into the conversation: each group is shown once,
+ * at its first answer, as the selected variant. Later answers of the group
+ * and the re-asked questions right before them are hidden (the server keeps
+ * them as ordinary turns).
+ */
+export function foldAnswerVariants(messages: Message[], groups: AnswerVariants[]): FoldedMessages {
+  const groupByKey = new Map<string, AnswerVariants>();
+  groups.forEach(group => {
+    group.variants.forEach(variant => groupByKey.set(getMessageKey(variant), group));
+  });
+
+  const folded: Message[] = [];
+  const variantsByKey = new Map<string, AnswerVariants>();
+  const shown = new Set<AnswerVariants>();
+  messages.forEach(message => {
+    const group = message.role === 'assistant' ? groupByKey.get(getMessageKey(message)) : undefined;
+    if (!group) {
+      folded.push(message);
+      return;
+    }
+    if (!shown.has(group)) {
+      shown.add(group);
+      const selected = group.variants[group.selected] ?? message;
+      folded.push(selected);
+      variantsByKey.set(getMessageKey(selected), group);
+      return;
+    }
+    const previous = folded[folded.length - 1];
+    if (previous?.role === 'user' && previous.content.trim() === group.question.trim()) {
+      folded.pop();
+    }
+  });
+  return { messages: folded, variantsByKey };
+}
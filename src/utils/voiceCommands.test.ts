@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeTranscript, parseConfirmation, parseVoiceCommand } from './voiceCommands';
+import type { VoiceCommand, VoiceCommandRule } from './voiceCommands';
+
+const DELETE_CONFIRMATION = 'Delete this conversation? Say yes to delete it or no to keep it.';
+
+describe('parseVoiceCommand', () => {
+  it.each<[string, VoiceCommand]>([
+    ['new conversation', { type: 'newConversation' }],
+    ['open the last thread', { type: 'openLastThread' }],
+    ['read that again', { type: 'readAgain' }],
+    ['delete this conversation', { type: 'deleteConversation' }],
+    ['show the SQL', { type: 'showSql' }],
+    ['switch to dark mode', { type: 'setTheme', theme: 'dark' }],
+  ])('recognises the example phrase "%s"', (transcript, command) => {
+    expect(parseVoiceCommand(transcript)?.command).toEqual(command);
+  });
+
+  it.each<[string, VoiceCommand]>([
+    ['Start a new chat.', { type: 'newConversation' }],
+    ['begin new thread', { type: 'newConversation' }],
+    ['Go back to my previous conversation', { type: 'openLastThread' }],
+    ['switch to the most recent chat', { type: 'openLastThread' }],
+    ['repeat that', { type: 'readAgain' }],
+    ['say the last answer again', { type: 'readAgain' }],
+    ['remove the current thread', { type: 'deleteConversation' }],
+    ['Show me the query', { type: 'showSql' }],
+    ['open queries', { type: 'showSql' }],
+    ['Dark-mode!', { type: 'setTheme', theme: 'dark' }],
+    ['use light theme', { type: 'setTheme', theme: 'light' }],
+    ['change to light mode', { type: 'setTheme', theme: 'light' }],
+  ])('recognises the variant "%s"', (transcript, command) => {
+    expect(parseVoiceCommand(transcript)?.command).toEqual(command);
+  });
+
+  it.each<[string, VoiceCommand]>([
+    ['Hey, please open the last thread', { type: 'openLastThread' }],
+    ['Okay, new conversation please', { type: 'newConversation' }],
+    ['Could you show the SQL for me?', { type: 'showSql' }],
+    ['can you read that again, thanks', { type: 'readAgain' }],
+    ['Now switch to dark mode, thank you', { type: 'setTheme', theme: 'dark' }],
+    ['And delete this conversation now', { type: 'deleteConversation' }],
+  ])('ignores filler and politeness in "%s"', (transcript, command) => {
+    expect(parseVoiceCommand(transcript)?.command).toEqual(command);
+  });
+
+  it.each([
+    'show the SQL for top artists',
+    'open the last thread about invoices',
+    'What was in the last conversation?',
+    'Which genres sell the most in dark mode hours?',
+    'delete all customers from Canada',
+    'how do I start a new conversation with a customer',
+    'read that again and summarise it',
+    'Please list the tracks by AC/DC',
+    '',
+    '   ',
+  ])('leaves "%s" to the agent', transcript => {
+    expect(parseVoiceCommand(transcript)).toBeNull();
+  });
+
+  it('asks for confirmation only before deleting', () => {
+    expect(parseVoiceCommand('delete this conversation')?.confirmation).toBe(DELETE_CONFIRMATION);
+    expect(parseVoiceCommand('new conversation')?.confirmation).toBeUndefined();
+    expect(parseVoiceCommand('switch to dark mode')?.confirmation).toBeUndefined();
+  });
+
+  it('matches against extra rules', () => {
+    const rules: VoiceCommandRule[] = [
+      { patterns: [/^lights (?<theme>on|off)$/], command: match => ({ type: 'setTheme', theme: match.groups?.theme === 'off' ? 'dark' : 'light' }) },
+    ];
+    expect(parseVoiceCommand('Lights off, please', rules)?.command).toEqual({ type: 'setTheme', theme: 'dark' });
+    expect(parseVoiceCommand('new conversation', rules)).toBeNull();
+  });
+});
+
+describe('parseConfirmation', () => {
+  it.each([
+    'yes',
+    'Yes.',
+    'yeah',
+    'Okay!',
+    'sure',
+    'go ahead',
+    'Yes, delete it',
+    'yes please',
+    'Delete it, please',
+  ])('reads "%s" as yes', transcript => {
+    expect(parseConfirmation(transcript)).toBe(true);
+  });
+
+  it.each([
+    'no',
+    'No!',
+    'nope',
+    'cancel',
+    "don't",
+    'never mind',
+    'No, keep it',
+    'no thanks',
+  ])('reads "%s" as no', transcript => {
+    expect(parseConfirmation(transcript)).toBe(false);
+  });
+
+  it.each([
+    'show the SQL for top artists',
+    'which album sold best',
+    'yes and no',
+    'no idea what the top genre is',
+    '',
+  ])('leaves "%s" unanswered', transcript => {
+    expect(parseConfirmation(transcript)).toBeNull();
+  });
+});
+
+describe('normalizeTranscript', () => {
+  it.each([
+    ['Dark-mode!', 'dark mode'],
+    ["  Don't   stop ", 'dont stop'],
+    ['Hey, please open the last thread, thanks', 'open the last thread'],
+    ['', ''],
+  ])('normalizes "%s" to "%s"', (transcript, expected) => {
+    expect(normalizeTranscript(transcript)).toBe(expected);
+  });
+});
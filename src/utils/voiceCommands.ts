@@ -0,0 +1,116 @@
+/**
+ * Control phrases recognised in voice input before it is sent to the agent.
+ * Pure functions over the transcript, so the grammar can be exercised
+ * without a microphone; ChatInterface runs the commands it owns and hands
+ * the rest to App and ThreadSidebar as a `voiceCommand` window event.
+ */
+
+export type VoiceCommand =
+  | { type: 'newConversation' }
+  | { type: 'openLastThread' }
+  | { type: 'readAgain' }
+  | { type: 'deleteConversation' }
+  | { type: 'showSql' }
+  | { type: 'setTheme'; theme: 'light' | 'dark' };
+
+export interface VoiceCommandDetail {
+  command: VoiceCommand;
+}
+
+export interface VoiceCommandRule {
+  // Matched against the whole normalized transcript (lower case, words only)
+  patterns: RegExp[];
+  command: (match: RegExpMatchArray) => VoiceCommand;
+  // Asked aloud before running; the command only runs on a spoken "yes"
+  confirmation?: string;
+}
+
+export interface VoiceCommandMatch {
+  command: VoiceCommand;
+  confirmation?: string;
+}
+
+// "conversation", "chat" and "thread" are used interchangeably
+const THREAD = '(?:conversation|chat|thread)';
+
+/**
+ * The built-in grammar. Patterns cover the whole transcript, so questions
+ * that merely contain a phrase ("show the SQL for top artists") still go to
+ * the agent. Add a rule here (and handle its command) to extend it.
+ */
+export const VOICE_COMMAND_RULES: VoiceCommandRule[] = [
+  {
+    patterns: [new RegExp(`^(?:start |begin |open )?(?:a )?new ${THREAD}$`)],
+    command: () => ({ type: 'newConversation' }),
+  },
+  {
+    patterns: [new RegExp(`^(?:open|go to|show|switch to|back to|go back to) (?:the |my )?(?:last|latest|previous|most recent) ${THREAD}$`)],
+    command: () => ({ type: 'openLastThread' }),
+  },
+  {
+    patterns: [
+      /^(?:read|say|repeat) (?:that|it|this|the (?:last )?answer) again$/,
+      /^repeat (?:that|it|the (?:last )?answer)$/,
+    ],
+    command: () => ({ type: 'readAgain' }),
+  },
+  {
+    patterns: [new RegExp(`^(?:delete|remove) (?:this|the|the current) ${THREAD}$`)],
+    command: () => ({ type: 'deleteConversation' }),
+    confirmation: 'Delete this conversation? Say yes to delete it or no to keep it.',
+  },
+  {
+    patterns: [/^(?:show|open) (?:me )?(?:the )?(?:sql|query|queries)$/],
+    command: () => ({ type: 'showSql' }),
+  },
+  {
+    patterns: [
+      /^(?:switch|change|go) to (?<theme>dark|light) (?:mode|theme)$/,
+      /^(?:turn on |use )?(?<theme>dark|light) (?:mode|theme)$/,
+    ],
+    command: match => ({ type: 'setTheme', theme: match.groups?.theme === 'dark' ? 'dark' : 'light' }),
+  },
+];
+
+// Politeness around a command that doesn't change it ("hey, please open the last chat")
+const LEADING_FILLER = /^(?:(?:hey|ok|okay|please|can you|could you|would you|will you|now|and)\s+)+/;
+const TRAILING_FILLER = /(?:\s+(?:please|now|for me|thanks|thank you))+$/;
+
+// Lower case, punctuation dropped ("Dark-mode!" -> "dark mode"), filler trimmed
+export function normalizeTranscript(transcript: string): string {
+  return transcript
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}'’]+/u)
+    .filter(Boolean)
+    .join(' ')
+    .replace(/['’]/g, '')
+    .replace(LEADING_FILLER, '')
+    .replace(TRAILING_FILLER, '');
+}
+
+// The command a transcript asks for, or null when it should go to the agent
+export function parseVoiceCommand(
+  transcript: string,
+  rules: VoiceCommandRule[] = VOICE_COMMAND_RULES
+): VoiceCommandMatch | null {
+  const text = normalizeTranscript(transcript);
+  if (!text) return null;
+  for (const rule of rules) {
+    for (const pattern of rule.patterns) {
+      const match = text.match(pattern);
+      if (match) return { command: rule.command(match), confirmation: rule.confirmation };
+    }
+  }
+  return null;
+}
+
+const YES = /^(?:yes|ok|okay|yeah|yep|yup|sure|confirm|confirmed|correct|do it|go ahead|delete it|yes delete it|yes please)$/;
+const NO = /^(?:no|nope|cancel|dont|do not|keep it|never mind|stop|no thanks|no keep it)$/;
+
+// Answer to a confirmation question: true for yes, false for no, null when unclear
+export function parseConfirmation(transcript: string): boolean | null {
+  const text = normalizeTranscript(transcript);
+  if (YES.test(text)) return true;
+  if (NO.test(text)) return false;
+  return null;
+}